@@ -0,0 +1,98 @@
+import { useEffect, useState } from "react";
+import { useFetcher } from "react-router";
+import type { CatalogVariant } from "../utils/variant-catalog.server";
+import type { loader as variantSearchLoader } from "../routes/app.variants";
+
+/**
+ * Label a variant with its product title and SKU
+ */
+export function formatVariantLabel(variant: Pick<CatalogVariant, "title" | "sku" | "productTitle">) {
+  return `${variant.productTitle} - ${variant.title || "Default"}${variant.sku ? ` (${variant.sku})` : ""}`;
+}
+
+/**
+ * Searchable, paginated picker over every variant in the catalog
+ */
+export function VariantPicker({
+  label,
+  excludeIds,
+  onSelect,
+}: {
+  label: string;
+  excludeIds: string[];
+  onSelect: (variant: CatalogVariant) => void;
+}) {
+  const searchFetcher = useFetcher<typeof variantSearchLoader>();
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<CatalogVariant[]>([]);
+
+  useEffect(() => {
+    const data = searchFetcher.data;
+    if (data) {
+      // Later pages are appended, a new search replaces the results
+      setResults((current) => (data.after ? [...current, ...data.variants] : data.variants));
+    }
+  }, [searchFetcher.data]);
+
+  const search = (searchQuery: string, after?: string | null) => {
+    const params = new URLSearchParams({ query: searchQuery });
+    if (after) {
+      params.set("after", after);
+    }
+    searchFetcher.load(`/app/variants?${params.toString()}`);
+  };
+
+  return (
+    <s-stack direction="block" gap="base">
+      <s-stack direction="inline" gap="base">
+        <s-search-field
+          label={label}
+          placeholder="Search by product, variant or SKU"
+          value={query}
+          onInput={(e) => setQuery(e.currentTarget.value)}
+        />
+        <s-button
+          variant="secondary"
+          onClick={() => search(query)}
+          loading={searchFetcher.state === "loading"}
+        >
+          Search
+        </s-button>
+      </s-stack>
+
+      {searchFetcher.data && results.length === 0 && (
+        <s-text color="subdued">No variants found</s-text>
+      )}
+
+      {results
+        .filter((result) => !excludeIds.includes(result.id))
+        .map((result) => (
+          <s-stack key={result.id} direction="inline" gap="base">
+            <s-text>
+              {formatVariantLabel(result)} ·{" "}
+              {result.tracked
+                ? `${result.inventoryQuantity ?? 0} in stock`
+                : "Inventory not tracked"}
+            </s-text>
+            <s-button
+              variant="tertiary"
+              disabled={!result.tracked}
+              onClick={() => onSelect(result)}
+            >
+              Select
+            </s-button>
+          </s-stack>
+        ))}
+
+      {searchFetcher.data?.hasNextPage && (
+        <s-button
+          variant="tertiary"
+          onClick={() => search(searchFetcher.data?.query || "", searchFetcher.data?.endCursor)}
+          loading={searchFetcher.state === "loading"}
+        >
+          Load more
+        </s-button>
+      )}
+    </s-stack>
+  );
+}
@@ -5,9 +5,15 @@ import { createReadableStreamFromReadable } from "@react-router/node";
 import { type EntryContext } from "react-router";
 import { isbot } from "isbot";
 import { addDocumentResponseHeaders } from "./shopify.server";
+import { startJobWorker } from "./jobs/worker.server";
 
 export const streamTimeout = 5000;
 
+// Process queued webhook jobs in this process unless a separate worker runs them
+if (process.env.JOB_WORKER !== "external") {
+  startJobWorker();
+}
+
 export default async function handleRequest(
   request: Request,
   responseStatusCode: number,
@@ -0,0 +1,211 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import db from "../db.server";
+import { getAdjustmentScope, scheduleRecalculation } from "../utils/recalculation-queue.server";
+import type { LineItemDeduction } from "../utils/order-deductions.server";
+import {
+  buildLocationTransfer,
+  getLedgerPositions,
+  hasLedgerSource,
+} from "../utils/deduction-ledger.server";
+import {
+  beginOrderDeduction,
+  canAdjustProcessedOrder,
+  failOrderDeduction,
+  getDeductionProgress,
+  runOrderDeduction,
+} from "../utils/order-processing.server";
+import type { DeductionOutcome } from "../utils/order-processing.server";
+import { getErrorMessage, recordOrderIssue, resolveOrderIssues } from "../utils/order-issues.server";
+
+interface FulfillmentOrderMovedPayload {
+  original_fulfillment_order?: {
+    id?: string;
+    assigned_location_id?: string;
+  };
+  moved_fulfillment_order?: {
+    id?: string;
+    assigned_location_id?: string;
+  };
+  source_location?: { id?: string } | null;
+  destination_location_id?: string;
+  webhook_id?: string | null; // Delivery ID, added when the webhook is queued
+}
+
+interface MovedLineItemNode {
+  totalQuantity: number;
+  lineItem: { id: string };
+}
+
+/**
+ * Job handler for fulfillment_orders/moved webhooks.
+ *
+ * When Shopify or staff move a fulfillment order to another location, Shopify moves the
+ * ordered variant's committed stock but our component deductions stay at the original
+ * location. This handler transfers them so per-location multipack availability stays correct.
+ *
+ * The handler:
+ * 1. Resolves the source and destination locations and the moved fulfillment order's line items
+ * 2. For each moved line item in the order's deduction ledger, returns its deductions at the
+ *    source location and applies them at the destination
+ * 3. Applies the transfer and records it in the ledger in stages, so a retry after a failure
+ *    resumes the move instead of transferring twice, then recalculates multipack inventory
+ */
+export async function handleFulfillmentOrdersMoved(
+  admin: AdminApiContext,
+  shop: string,
+  payload: unknown
+): Promise<void> {
+  console.log(`Fulfillment order moved payload:`, JSON.stringify(payload, null, 2));
+
+  const moved = payload as FulfillmentOrderMovedPayload;
+  const movedFulfillmentOrderId = moved.moved_fulfillment_order?.id;
+  const fromLocationId =
+    moved.source_location?.id || moved.original_fulfillment_order?.assigned_location_id;
+
+  if (!movedFulfillmentOrderId || !fromLocationId) {
+    console.log("Moved fulfillment order or source location not found in payload");
+    return;
+  }
+
+  const fulfillmentOrderResponse = await admin.graphql(
+    `#graphql
+      query getMovedFulfillmentOrder($id: ID!) {
+        fulfillmentOrder(id: $id) {
+          id
+          order {
+            id
+          }
+          assignedLocation {
+            location {
+              id
+            }
+          }
+          lineItems(first: 250) {
+            edges {
+              node {
+                totalQuantity
+                lineItem {
+                  id
+                }
+              }
+            }
+          }
+        }
+      }
+    `,
+    {
+      variables: {
+        id: movedFulfillmentOrderId,
+      },
+    }
+  );
+
+  const fulfillmentOrderData = await fulfillmentOrderResponse.json();
+  const fulfillmentOrder = fulfillmentOrderData.data?.fulfillmentOrder;
+  const toLocationId =
+    fulfillmentOrder?.assignedLocation?.location?.id || moved.destination_location_id;
+  const orderId = fulfillmentOrder?.order?.id?.split("/").pop() || "";
+
+  if (!orderId || !toLocationId) {
+    console.log(`Order or destination location not found for fulfillment order ${movedFulfillmentOrderId}`);
+    return;
+  }
+
+  if (toLocationId === fromLocationId) {
+    console.log("Fulfillment order stayed at the same location, skipping");
+    return;
+  }
+
+  const processedOrder = await db.processedOrder.findUnique({
+    where: {
+      shop_orderId: {
+        shop,
+        orderId,
+      },
+    },
+  });
+
+  if (!processedOrder || !processedOrder.hasDeductionLedger) {
+    console.log(`Order ${orderId} has no deduction ledger, skipping move`);
+    return;
+  }
+
+  // Fulfillment-based orders deduct at the location each fulfillment ships from
+  if (processedOrder.deductionTrigger === "fulfillments/create") {
+    console.log(`Order ${orderId} is deducted per fulfillment, skipping move`);
+    return;
+  }
+
+  // A fulfillment order moved in full keeps its ID, so each move is keyed by its delivery, or
+  // by its locations for jobs queued without one
+  const moveKey = moved.webhook_id || `${fromLocationId.split("/").pop()}-${toLocationId.split("/").pop()}`;
+  const source = `fulfillment_orders/moved:${movedFulfillmentOrderId.split("/").pop()}:${moveKey}`;
+  if (!canAdjustProcessedOrder(processedOrder, source)) {
+    return;
+  }
+
+  // A move whose transfer stopped part-way is resumed even if its ledger rows exist
+  if (
+    getDeductionProgress(processedOrder)?.source !== source &&
+    (await hasLedgerSource(processedOrder.id, source))
+  ) {
+    console.log(`Fulfillment order move ${movedFulfillmentOrderId} already applied, skipping`);
+    return;
+  }
+
+  const transferring = await beginOrderDeduction(processedOrder, source);
+
+  if (!transferring) {
+    // Retry the job once the other adjustment is done, so the move isn't lost
+    throw new Error(`Order ${orderId} is being adjusted by another event`);
+  }
+
+  let outcome: DeductionOutcome;
+
+  // Fail the job so the move is retried rather than lost
+  try {
+    outcome = await runOrderDeduction(admin, shop, transferring, fulfillmentOrder.order.id, async () => {
+      const positions = new Map(
+        (await getLedgerPositions(transferring.id)).map((position) => [position.lineItemId, position])
+      );
+
+      const transfers: LineItemDeduction[] = [];
+
+      for (const { node } of (fulfillmentOrder.lineItems?.edges || []) as Array<{ node: MovedLineItemNode }>) {
+        const position = positions.get(node.lineItem.id.split("/").pop() || "");
+        if (!position) {
+          continue;
+        }
+        transfers.push(
+          ...buildLocationTransfer(position, fromLocationId, toLocationId, node.totalQuantity)
+        );
+      }
+
+      return { deductions: transfers, shortfalls: [], skipped: [] };
+    });
+  } catch (error) {
+    await failOrderDeduction(transferring.id, error);
+    await recordOrderIssue(
+      { shop, orderId, source, jobType: "fulfillment_orders/moved", payload },
+      "failed",
+      `Failed to transfer component deductions for order ${orderId} to ${toLocationId}: ${getErrorMessage(error)}`
+    );
+    throw error;
+  }
+
+  if (!outcome.adjusted) {
+    console.log(`No component deductions to transfer for fulfillment order ${movedFulfillmentOrderId}`);
+    return;
+  }
+
+  await resolveOrderIssues(shop, orderId, "succeeded", source);
+  console.log(`Successfully transferred component deductions for order ${orderId} to ${toLocationId}`);
+
+  // Recalculate multipack inventory after transferring deductions
+  try {
+    await scheduleRecalculation(shop, getAdjustmentScope(outcome.deductions));
+  } catch (error) {
+    console.error(`Error scheduling multipack inventory recalculation after fulfillment order move: ${error}`);
+    // Don't fail the job if scheduling the recalculation fails
+  }
+}
@@ -0,0 +1,155 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { getAdjustmentScope, scheduleRecalculation } from "../utils/recalculation-queue.server";
+import type { LineItemDeduction, OrderLineItem } from "../utils/order-deductions.server";
+import { hasLedgerSource } from "../utils/deduction-ledger.server";
+import { getFallbackLocationId } from "../utils/fulfillment-locations.server";
+import { getShopSettings } from "../utils/shop-settings.server";
+import {
+  applyLineItemDeductions,
+  beginOrderDeduction,
+  claimProcessedOrder,
+  failOrderDeduction,
+  getDeductionProgress,
+  getProcessedOrder,
+  isDeductionEvent,
+} from "../utils/order-processing.server";
+import { fetchOrderProcessedAt } from "../utils/rule-schedule.server";
+import {
+  getErrorMessage,
+  recordOrderIssue,
+  recordSkippedLineItems,
+} from "../utils/order-issues.server";
+
+interface FulfillmentPayload {
+  id?: number;
+  order_id?: number;
+  status?: string;
+  location_id?: number | null;
+  line_items?: OrderLineItem[];
+}
+
+/**
+ * Job handler for fulfillments/create webhooks.
+ *
+ * Shops taking pre-orders deduct components only when stock actually leaves the warehouse.
+ * When the shop's deduction trigger is fulfillments/create, every fulfillment deducts the
+ * components of the line item units it ships, at the location it ships from. Orders already
+ * deducted by orders/create or orders/paid are skipped, so changing the trigger while orders
+ * are open never deducts an order twice.
+ *
+ * The handler:
+ * 1. Skips the fulfillment unless the shop deducts at fulfillment, or the order wasn't deducted yet
+ * 2. Claims the order for fulfillment-based deductions, or skips it if another event deducted it
+ * 3. Deducts the fulfilled line items and records them in the ledger under the fulfillment,
+ *    resuming a deduction of the fulfillment that failed part-way
+ * 4. Recalculates multipack inventory
+ */
+export async function handleFulfillmentsCreate(
+  admin: AdminApiContext,
+  shop: string,
+  payload: unknown
+): Promise<void> {
+  console.log(`Fulfillment payload:`, JSON.stringify(payload, null, 2));
+
+  const fulfillment = payload as FulfillmentPayload;
+  const orderId = fulfillment.order_id?.toString() || "";
+
+  if (!orderId || !fulfillment.id) {
+    console.log("Order ID or fulfillment ID not found in payload");
+    return;
+  }
+
+  if (fulfillment.status === "cancelled" || fulfillment.status === "failure" || fulfillment.status === "error") {
+    console.log(`Fulfillment ${fulfillment.id} has status ${fulfillment.status}, skipping`);
+    return;
+  }
+
+  const { deductionTrigger } = await getShopSettings(shop);
+  if (!isDeductionEvent(deductionTrigger, "fulfillments/create")) {
+    console.log(`Shop deducts on ${deductionTrigger}, skipping fulfillment ${fulfillment.id}`);
+    return;
+  }
+
+  const processedOrder =
+    (await getProcessedOrder(shop, orderId)) ||
+    (await claimProcessedOrder(
+      shop,
+      orderId,
+      "fulfillments/create",
+      await fetchOrderProcessedAt(admin, `gid://shopify/Order/${orderId}`)
+    )) ||
+    (await getProcessedOrder(shop, orderId));
+
+  if (!processedOrder || processedOrder.deductionTrigger !== "fulfillments/create") {
+    console.log(`Order ${orderId} was already deducted on ${processedOrder?.deductionTrigger}, skipping fulfillment`);
+    return;
+  }
+
+  if (processedOrder.status === "reversed") {
+    console.log(`Order ${orderId} was reversed, skipping fulfillment`);
+    return;
+  }
+
+  // A fulfillment whose deduction stopped part-way is resumed even if its ledger rows exist
+  const source = `fulfillments/create:${fulfillment.id}`;
+  if (
+    getDeductionProgress(processedOrder)?.source !== source &&
+    (await hasLedgerSource(processedOrder.id, source))
+  ) {
+    console.log(`Fulfillment ${fulfillment.id} already deducted, skipping`);
+    return;
+  }
+
+  if (!fulfillment.line_items || fulfillment.line_items.length === 0) {
+    console.log("Fulfillment has no line items, skipping");
+    return;
+  }
+
+  const deducting = await beginOrderDeduction(processedOrder, source);
+
+  if (!deducting) {
+    // Retry the job once the other deduction is done, so the fulfillment isn't lost
+    throw new Error(`Order ${orderId} is being deducted by another event`);
+  }
+
+  const issueEvent = { shop, orderId, source, jobType: "fulfillments/create", payload };
+  let deducted: LineItemDeduction[];
+
+  try {
+    // Deduct where the units ship from
+    const fallbackLocationId = fulfillment.location_id
+      ? `gid://shopify/Location/${fulfillment.location_id}`
+      : await getFallbackLocationId(admin, shop);
+
+    const { deductions, skipped } = await applyLineItemDeductions(
+      admin,
+      shop,
+      deducting,
+      fulfillment.line_items,
+      { allocations: new Map(), fallbackLocationId },
+      source,
+      `gid://shopify/Order/${orderId}`
+    );
+
+    await recordSkippedLineItems(issueEvent, skipped);
+    deducted = deductions;
+  } catch (error) {
+    await failOrderDeduction(deducting.id, error);
+    await recordOrderIssue(issueEvent, "failed", getErrorMessage(error));
+    throw error;
+  }
+
+  if (deducted.length === 0) {
+    return;
+  }
+
+  console.log(`Successfully adjusted inventory for fulfillment ${fulfillment.id} of order ${orderId}`);
+
+  // Recalculate multipack inventory after processing the fulfillment
+  try {
+    await scheduleRecalculation(shop, getAdjustmentScope(deducted));
+  } catch (error) {
+    console.error(`Error scheduling multipack inventory recalculation after fulfillment: ${error}`);
+    // Don't fail the job if scheduling the recalculation fails
+  }
+}
@@ -0,0 +1,50 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { scheduleRecalculation } from "../utils/recalculation-queue.server";
+
+interface InventoryLevelPayload {
+  inventory_item_id?: number;
+  location_id?: number;
+  available?: number;
+  updated_at?: string;
+}
+
+/**
+ * Job handler for inventory_levels/update webhooks.
+ * 
+ * This handler updates multipack inventory when source variant inventory changes
+ * directly (not via orders). This ensures multipack inventory stays in sync when
+ * inventory is manually adjusted, transferred between locations, or updated through
+ * other means.
+ * 
+ * The handler:
+ * 1. Extracts the inventory item and location from the payload
+ * 2. Schedules a recalculation of only the bundles made from that inventory item, at only
+ *    that location; bundle variants' own updates find no dependent bundles
+ * 3. Leaves the recalculation to the queued job, which coalesces the updates of a burst
+ *    (e.g. a flash sale) into one pass per shop
+ */
+export async function handleInventoryLevelsUpdate(
+  admin: AdminApiContext,
+  shop: string,
+  payload: unknown
+): Promise<void> {
+  console.log(`Inventory level payload:`, JSON.stringify(payload, null, 2));
+
+  const inventoryLevel = payload as InventoryLevelPayload;
+
+  console.log(
+    `Inventory level updated for item ${inventoryLevel.inventory_item_id} at location ${inventoryLevel.location_id}`
+  );
+
+  if (!inventoryLevel.inventory_item_id || !inventoryLevel.location_id) {
+    // Without the changed level, recalculate every bundle at every location
+    await scheduleRecalculation(shop);
+  } else {
+    await scheduleRecalculation(shop, {
+      inventoryItemIds: [`gid://shopify/InventoryItem/${inventoryLevel.inventory_item_id}`],
+      locationIds: [`gid://shopify/Location/${inventoryLevel.location_id}`],
+    });
+  }
+
+  console.log(`Scheduled multipack inventory recalculation after inventory level change for shop ${shop}`);
+}
@@ -0,0 +1,23 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { calculateMultipackInventory } from "../utils/inventory-calculation.server";
+import type { CalculationScope } from "../utils/inventory-calculation.server";
+
+/**
+ * Job handler for multipack inventory recalculations queued by scheduleRecalculation.
+ *
+ * The payload is the combined scope of every request coalesced into the job. Fails the job
+ * when a lookup or write failed, so the recalculation is retried.
+ */
+export async function handleInventoryRecalculate(
+  admin: AdminApiContext,
+  shop: string,
+  payload: unknown
+): Promise<void> {
+  const scope = (payload || {}) as CalculationScope;
+
+  const completed = await calculateMultipackInventory(admin, shop, scope);
+
+  if (!completed) {
+    throw new Error(`Multipack inventory could not be fully recalculated for shop ${shop}`);
+  }
+}
@@ -0,0 +1,164 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import db from "../db.server";
+import { getAdjustmentScope, scheduleRecalculation } from "../utils/recalculation-queue.server";
+import {
+  buildLineItemDeductions,
+  getOrderGid,
+  getOrderId,
+} from "../utils/order-deductions.server";
+import type { OrderPayload } from "../utils/order-deductions.server";
+import { resolveLineItemLocations } from "../utils/fulfillment-locations.server";
+import { adjustInventoryWithRemainders } from "../utils/component-remainders.server";
+import type { InventoryAdjustment } from "../utils/inventory-write.server";
+import { getOrderProcessedAt, getRulesInEffect } from "../utils/rule-schedule.server";
+import { getAppliedReversal } from "../utils/order-processing.server";
+import {
+  getErrorMessage,
+  recordOrderIssue,
+  resolveOrderIssues,
+} from "../utils/order-issues.server";
+
+/**
+ * Re-derive the reversal for an order processed before the deduction ledger existed,
+ * using the variant rules in effect when the order was placed.
+ */
+async function buildLegacyReversals(
+  admin: AdminApiContext,
+  shop: string,
+  order: OrderPayload
+): Promise<InventoryAdjustment[]> {
+  if (!order.line_items || order.line_items.length === 0) {
+    console.log("Order has no line items, skipping reversal");
+    return [];
+  }
+
+  const locations = await resolveLineItemLocations(
+    admin,
+    shop,
+    getOrderGid(order),
+    order.line_items.map((lineItem) => lineItem.id?.toString() || "")
+  );
+
+  const variantRules = await getRulesInEffect(shop, getOrderProcessedAt(order));
+
+  const deductions = await buildLineItemDeductions(
+    admin,
+    variantRules,
+    order.line_items,
+    locations
+  );
+
+  // REVERSE: add back what was deducted and subtract back what was added
+  return deductions.map((deduction) => ({
+    inventoryItemId: deduction.inventoryItemId,
+    locationId: deduction.locationId,
+    delta: -deduction.delta,
+  }));
+}
+
+/**
+ * Job handler for orders/cancelled webhooks.
+ * 
+ * This handler reverses inventory adjustments that were made when the order was paid.
+ * When an order is cancelled, Shopify only restores 1 unit per item, but we need to
+ * restore the correct amounts based on the custom deduction mappings.
+ * 
+ * The handler:
+ * 1. Checks if the order was previously processed (must exist in ProcessedOrder table) and not reversed yet
+ * 2. Reads the adjustments recorded in the order's deduction ledger, plus those of a deduction
+ *    that Shopify applied but that failed before it was recorded
+ * 3. Reverses all recorded adjustments (adds back what was deducted), recording an order
+ *    issue when that fails
+ * 4. Marks the ProcessedOrder as reversed, so later events of the order leave it alone
+ */
+export async function handleOrdersCancelled(
+  admin: AdminApiContext,
+  shop: string,
+  payload: unknown
+): Promise<void> {
+  console.log(`Order payload:`, JSON.stringify(payload, null, 2));
+
+  const order = payload as OrderPayload;
+  const orderId = getOrderId(order);
+  
+  if (!orderId) {
+    console.log("Order ID not found in payload");
+    return;
+  }
+
+  // Check if order was previously processed - we can only reverse processed orders
+  const existing = await db.processedOrder.findUnique({
+    where: {
+      shop_orderId: {
+        shop,
+        orderId,
+      },
+    },
+  });
+
+  if (!existing) {
+    console.log(`Order ${orderId} was not processed by our system, skipping reversal`);
+    return;
+  }
+
+  if (existing.status === "reversed") {
+    console.log(`Order ${orderId} was already reversed, skipping`);
+    return;
+  }
+  
+  let reversals: InventoryAdjustment[];
+
+  const issueEvent = {
+    shop,
+    orderId,
+    source: "orders/cancelled",
+    jobType: "orders/cancelled",
+    payload: order,
+  };
+
+  try {
+    if (existing.hasDeductionLedger) {
+      // Replay the inverse of what was recorded when the order was paid
+      reversals = await getAppliedReversal(admin, shop, existing);
+    } else {
+      // Orders processed before the ledger existed: re-derive from the current rules
+      reversals = await buildLegacyReversals(admin, shop, order);
+    }
+
+    // Apply all inventory adjustments (reversals)
+    if (reversals.length > 0) {
+      const result = await adjustInventoryWithRemainders(admin, shop, reversals, {
+        referenceDocumentUri: getOrderGid(order),
+      });
+
+      if (!result.success) {
+        throw new Error(
+          `Failed to reverse order ${orderId}: ${
+            result.error || result.userErrors.map((userError) => userError.message).join(", ")
+          }`
+        );
+      }
+
+      console.log(`Successfully reversed inventory adjustments for cancelled order ${orderId}`);
+    }
+  } catch (error) {
+    await recordOrderIssue(issueEvent, "failed", getErrorMessage(error));
+    throw error;
+  }
+
+  await db.processedOrder.update({
+    where: { id: existing.id },
+    data: { status: "reversed", progress: null },
+  });
+
+  // Nothing is left to deduct for a cancelled order, so its deduction issues are settled too
+  await resolveOrderIssues(shop, orderId, "succeeded");
+
+  // Recalculate multipack inventory after reversing order
+  try {
+    await scheduleRecalculation(shop, getAdjustmentScope(reversals));
+  } catch (error) {
+    console.error(`Error scheduling multipack inventory recalculation after order cancellation: ${error}`);
+    // Don't fail the job if scheduling the recalculation fails
+  }
+}
@@ -0,0 +1,40 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { getAdjustmentScope, scheduleRecalculation } from "../utils/recalculation-queue.server";
+import type { OrderPayload } from "../utils/order-deductions.server";
+import { deductOrderForEvent } from "../utils/order-processing.server";
+
+/**
+ * Job handler for orders/create webhooks.
+ * 
+ * Shops selling on cash on delivery or payment terms commit stock when the order is
+ * placed, long before orders/paid arrives. When the shop's deduction trigger is
+ * orders/create, this handler deducts the order as soon as it is created; the
+ * ProcessedOrder record keeps the later orders/paid webhook from deducting it again.
+ * 
+ * The handler:
+ * 1. Skips the order unless the shop deducts on orders/create
+ * 2. Checks if the order was already processed (idempotency)
+ * 3. Deducts components at each line item's fulfillment location and records them in the ledger
+ * 4. Recalculates multipack inventory
+ */
+export async function handleOrdersCreate(
+  admin: AdminApiContext,
+  shop: string,
+  payload: unknown
+): Promise<void> {
+  console.log(`Order payload:`, JSON.stringify(payload, null, 2));
+
+  const deductions = await deductOrderForEvent(admin, shop, payload as OrderPayload, "orders/create");
+
+  if (deductions.length === 0) {
+    return;
+  }
+
+  // Recalculate multipack inventory after processing order
+  try {
+    await scheduleRecalculation(shop, getAdjustmentScope(deductions));
+  } catch (error) {
+    console.error(`Error scheduling multipack inventory recalculation after order processing: ${error}`);
+    // Don't fail the job if scheduling the recalculation fails
+  }
+}
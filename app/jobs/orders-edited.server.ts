@@ -0,0 +1,432 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import type { ProcessedOrder } from "@prisma/client";
+import db from "../db.server";
+import { getAdjustmentScope, scheduleRecalculation } from "../utils/recalculation-queue.server";
+import { buildLineItemDeductions } from "../utils/order-deductions.server";
+import type {
+  LineItemDeduction,
+  OrderLineItem,
+  SkippedLineItem,
+} from "../utils/order-deductions.server";
+import {
+  buildProportionalDeduction,
+  buildProportionalReversal,
+  getLedgerPositions,
+  getRestockedUnits,
+  hasLedgerSource,
+} from "../utils/deduction-ledger.server";
+import { resolveLineItemLocations } from "../utils/fulfillment-locations.server";
+import { getRulesDate, getRulesInEffect } from "../utils/rule-schedule.server";
+import { enforceOversellPolicy } from "../utils/oversell.server";
+import {
+  beginOrderDeduction,
+  canAdjustProcessedOrder,
+  failOrderDeduction,
+  getDeductionProgress,
+  runOrderDeduction,
+} from "../utils/order-processing.server";
+import type { DeductionOutcome, DeductionPlan } from "../utils/order-processing.server";
+import {
+  getErrorMessage,
+  recordOrderIssue,
+  recordSkippedLineItems,
+} from "../utils/order-issues.server";
+
+interface OrderEditLineItemChange {
+  id: number;
+  delta: number;
+}
+
+interface OrderEditPayload {
+  order_edit?: {
+    id?: number;
+    order_id?: number;
+    line_items?: {
+      additions?: OrderEditLineItemChange[];
+      removals?: OrderEditLineItemChange[];
+    };
+  };
+}
+
+interface CurrentLineItem {
+  id: string;
+  currentQuantity: number;
+  customAttributes: Array<{ key: string; value: string | null }>;
+  variant?: {
+    id: string;
+    inventoryItem?: { tracked: boolean } | null;
+  } | null;
+}
+
+interface RefundLineItemsPage {
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  nodes: Array<{ quantity: number; lineItem: { id: string } }>;
+}
+
+/**
+ * Add up the units of each line item of an order that were refunded, keyed by numeric line item ID
+ */
+async function getRefundedQuantities(
+  admin: AdminApiContext,
+  orderGid: string
+): Promise<Map<string, number>> {
+  const refundedQuantities = new Map<string, number>();
+
+  const response = await admin.graphql(
+    `#graphql
+      query getOrderRefunds($id: ID!) {
+        order(id: $id) {
+          refunds {
+            id
+            refundLineItems(first: 250) {
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
+              nodes {
+                quantity
+                lineItem {
+                  id
+                }
+              }
+            }
+          }
+        }
+      }
+    `,
+    {
+      variables: {
+        id: orderGid,
+      },
+    }
+  );
+
+  const data = await response.json();
+  const refunds: Array<{ id: string; refundLineItems: RefundLineItemsPage }> =
+    data.data?.order?.refunds || [];
+
+  for (const refund of refunds) {
+    let page: RefundLineItemsPage | undefined = refund.refundLineItems;
+
+    while (page) {
+      for (const refundLineItem of page.nodes) {
+        const lineItemId = refundLineItem.lineItem.id.split("/").pop() || "";
+        refundedQuantities.set(lineItemId, (refundedQuantities.get(lineItemId) || 0) + refundLineItem.quantity);
+      }
+
+      if (!page.pageInfo.hasNextPage) {
+        break;
+      }
+
+      const pageResponse: Response = await admin.graphql(
+        `#graphql
+          query getRefundLineItems($id: ID!, $after: String) {
+            node(id: $id) {
+              ... on Refund {
+                refundLineItems(first: 250, after: $after) {
+                  pageInfo {
+                    hasNextPage
+                    endCursor
+                  }
+                  nodes {
+                    quantity
+                    lineItem {
+                      id
+                    }
+                  }
+                }
+              }
+            }
+          }
+        `,
+        {
+          variables: {
+            id: refund.id,
+            after: page.pageInfo.endCursor,
+          },
+        }
+      );
+
+      const pageData: {
+        data?: { node?: { refundLineItems?: RefundLineItemsPage } | null };
+      } = await pageResponse.json();
+      page = pageData.data?.node?.refundLineItems;
+    }
+  }
+
+  return refundedQuantities;
+}
+
+// Most IDs a nodes query accepts
+const NODES_PAGE_SIZE = 250;
+
+/**
+ * Load the current state of an order's line items, keyed by numeric line item ID.
+ * Only the given line items are loaded, however many the order has.
+ */
+async function getCurrentLineItems(
+  admin: AdminApiContext,
+  lineItemIds: string[]
+): Promise<Map<string, CurrentLineItem>> {
+  const currentLineItems = new Map<string, CurrentLineItem>();
+
+  for (let start = 0; start < lineItemIds.length; start += NODES_PAGE_SIZE) {
+    const response = await admin.graphql(
+      `#graphql
+        query getEditedLineItems($ids: [ID!]!) {
+          nodes(ids: $ids) {
+            ... on LineItem {
+              id
+              currentQuantity
+              customAttributes {
+                key
+                value
+              }
+              variant {
+                id
+                inventoryItem {
+                  tracked
+                }
+              }
+            }
+          }
+        }
+      `,
+      {
+        variables: {
+          ids: lineItemIds
+            .slice(start, start + NODES_PAGE_SIZE)
+            .map((lineItemId) => `gid://shopify/LineItem/${lineItemId}`),
+        },
+      }
+    );
+
+    const data = await response.json();
+    for (const node of (data.data?.nodes || []) as Array<CurrentLineItem | null>) {
+      if (node?.id) {
+        currentLineItems.set(node.id.split("/").pop() || "", node);
+      }
+    }
+  }
+
+  return currentLineItems;
+}
+
+/**
+ * Job handler for orders/edited webhooks.
+ *
+ * Order edits don't trigger orders/paid again (the order is already in ProcessedOrder),
+ * so without this handler component stock drifts when staff add, remove or change
+ * quantities. The handler compares the current quantity of every edited line item with
+ * the units recorded in the order's deduction ledger and applies only the net difference.
+ * Refunds lower the current quantity too, so refunded units are added back and units the
+ * ledger reversed for restocks taken off before comparing; a refund without a restock
+ * isn't mistaken for an edit removing units.
+ *
+ * The handler:
+ * 1. Checks the order was processed with a deduction ledger and the edit wasn't applied yet
+ * 2. Loads the current state of the edited line items
+ * 3. For edited line items already in the ledger, deducts or reverses the unit difference
+ *    using the per-unit deductions recorded at payment time
+ * 4. For newly added line items (including a bundle variant swapped in), deducts using the rules
+ *    in effect when the order was placed
+ * 5. Applies the net adjustments and records them in the ledger in stages, so a retry after
+ *    a failure resumes the edit instead of applying it twice, then recalculates multipack inventory
+ */
+export async function handleOrdersEdited(
+  admin: AdminApiContext,
+  shop: string,
+  payload: unknown
+): Promise<void> {
+  console.log(`Order edit payload:`, JSON.stringify(payload, null, 2));
+
+  const orderEdit = (payload as OrderEditPayload).order_edit;
+  const orderId = orderEdit?.order_id?.toString() || "";
+
+  if (!orderEdit?.id || !orderId) {
+    console.log("Order edit or order ID not found in payload");
+    return;
+  }
+
+  const processedOrder = await db.processedOrder.findUnique({
+    where: {
+      shop_orderId: {
+        shop,
+        orderId,
+      },
+    },
+  });
+
+  if (!processedOrder) {
+    console.log(`Order ${orderId} was not processed by our system, skipping edit`);
+    return;
+  }
+
+  const source = `orders/edited:${orderEdit.id}`;
+  if (!canAdjustProcessedOrder(processedOrder, source)) {
+    return;
+  }
+
+  if (!processedOrder.hasDeductionLedger) {
+    console.log(`Order ${orderId} was processed before the deduction ledger existed, skipping edit`);
+    return;
+  }
+
+  // Edits only change unfulfilled units, which fulfillment-based orders haven't deducted yet
+  if (processedOrder.deductionTrigger === "fulfillments/create") {
+    console.log(`Order ${orderId} is deducted per fulfillment, skipping edit`);
+    return;
+  }
+
+  // An edit whose adjustment stopped part-way is resumed even if its ledger rows exist
+  if (
+    getDeductionProgress(processedOrder)?.source !== source &&
+    (await hasLedgerSource(processedOrder.id, source))
+  ) {
+    console.log(`Order edit ${orderEdit.id} already applied, skipping`);
+    return;
+  }
+
+  const editedLineItemIds = new Set(
+    [
+      ...(orderEdit.line_items?.additions || []),
+      ...(orderEdit.line_items?.removals || []),
+    ].map((change) => change.id.toString())
+  );
+
+  if (editedLineItemIds.size === 0) {
+    console.log("Order edit has no line item changes, skipping");
+    return;
+  }
+
+  const adjusting = await beginOrderDeduction(processedOrder, source);
+
+  if (!adjusting) {
+    // Retry the job once the other adjustment is done, so the edit isn't lost
+    throw new Error(`Order ${orderId} is being adjusted by another event`);
+  }
+
+  const issueEvent = { shop, orderId, source, jobType: "orders/edited", payload };
+  let outcome: DeductionOutcome;
+
+  // Fail the job so the edit is retried rather than lost
+  try {
+    outcome = await runOrderDeduction(admin, shop, adjusting, `gid://shopify/Order/${orderId}`, () =>
+      planOrderEdit(admin, shop, adjusting, editedLineItemIds)
+    );
+  } catch (error) {
+    await failOrderDeduction(adjusting.id, error);
+    await recordOrderIssue(
+      issueEvent,
+      "failed",
+      `Failed to apply order edit ${orderEdit.id} to order ${orderId}: ${getErrorMessage(error)}`
+    );
+    throw error;
+  }
+
+  await recordSkippedLineItems(issueEvent, outcome.skipped);
+
+  if (!outcome.adjusted) {
+    console.log(`Order edit ${orderEdit.id} doesn't change any component deductions`);
+    return;
+  }
+
+  console.log(`Successfully applied order edit ${orderEdit.id} to order ${orderId}`);
+
+  // Recalculate multipack inventory after applying the edit
+  try {
+    await scheduleRecalculation(shop, getAdjustmentScope(outcome.deductions));
+  } catch (error) {
+    console.error(`Error scheduling multipack inventory recalculation after order edit: ${error}`);
+    // Don't fail the job if scheduling the recalculation fails
+  }
+}
+
+/**
+ * Work out the adjustments of an order edit: the unit difference of edited line items already
+ * in the order's ledger, and deductions for newly added line items
+ */
+async function planOrderEdit(
+  admin: AdminApiContext,
+  shop: string,
+  processedOrder: ProcessedOrder,
+  editedLineItemIds: Set<string>
+): Promise<DeductionPlan> {
+  const orderGid = `gid://shopify/Order/${processedOrder.orderId}`;
+
+  const currentLineItems = await getCurrentLineItems(admin, Array.from(editedLineItemIds));
+
+  const positions = new Map(
+    (await getLedgerPositions(processedOrder.id)).map((position) => [position.lineItemId, position])
+  );
+  const refundedQuantities = await getRefundedQuantities(admin, orderGid);
+  const restockedUnits = await getRestockedUnits(processedOrder.id);
+
+  const adjustments: LineItemDeduction[] = [];
+  const newLineItems: OrderLineItem[] = [];
+  const skipped: SkippedLineItem[] = [];
+
+  for (const lineItemId of editedLineItemIds) {
+    const currentLineItem = currentLineItems.get(lineItemId);
+    const currentQuantity = currentLineItem?.currentQuantity || 0;
+    const position = positions.get(lineItemId);
+
+    if (position && position.units > 0) {
+      // The units the ledger should hold: refunds don't change it unless they restocked
+      const ledgerQuantity =
+        currentQuantity + (refundedQuantities.get(lineItemId) || 0) - (restockedUnits.get(lineItemId) || 0);
+      const difference = ledgerQuantity - position.units;
+      if (difference < 0) {
+        adjustments.push(...buildProportionalReversal(position, -difference));
+      } else if (difference > 0) {
+        adjustments.push(...buildProportionalDeduction(position, difference));
+      }
+    } else if (currentLineItem?.variant && currentQuantity > 0) {
+      // Nothing deducted yet for this line item: apply the current rules
+      newLineItems.push({
+        id: Number(lineItemId),
+        variant_id: Number(currentLineItem.variant.id.split("/").pop()),
+        quantity: currentQuantity,
+        variant_inventory_management: currentLineItem.variant.inventoryItem?.tracked
+          ? "shopify"
+          : undefined,
+        properties: currentLineItem.customAttributes.map((attribute) => ({
+          name: attribute.key,
+          value: attribute.value,
+        })),
+      });
+    }
+  }
+
+  // Added line items use the rules in effect when the order was placed
+  const variantRules = await getRulesInEffect(shop, getRulesDate(processedOrder));
+
+  if (newLineItems.length > 0) {
+    const locations = await resolveLineItemLocations(
+      admin,
+      shop,
+      orderGid,
+      newLineItems.map((lineItem) => lineItem.id?.toString() || "")
+    );
+    adjustments.push(
+      ...(await buildLineItemDeductions(admin, variantRules, newLineItems, locations, {
+        chooseSubstitutes: true,
+        skipped,
+      }))
+    );
+  }
+
+  if (adjustments.length === 0) {
+    return { deductions: [], shortfalls: [], skipped };
+  }
+
+  // Quantity increases can run components out like a new order
+  const { deductions, shortfalls } = await enforceOversellPolicy(
+    admin,
+    shop,
+    variantRules,
+    adjustments
+  );
+
+  return { deductions, shortfalls, skipped };
+}
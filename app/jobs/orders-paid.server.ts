@@ -0,0 +1,44 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { getAdjustmentScope, scheduleRecalculation } from "../utils/recalculation-queue.server";
+import type { OrderPayload } from "../utils/order-deductions.server";
+import { deductOrderForEvent } from "../utils/order-processing.server";
+
+/**
+ * Job handler for orders/paid webhooks.
+ * 
+ * This handler processes both regular orders and subscription orders.
+ * When a subscription billing attempt succeeds, Shopify creates an order
+ * which triggers the orders/paid webhook, so this handler automatically
+ * processes subscription orders as well.
+ * 
+ * Deducts only when the shop's deduction trigger is orders/create or orders/paid;
+ * shops that deduct at fulfillment are handled by handleFulfillmentsCreate.
+ * 
+ * The handler:
+ * 1. Checks if the order was already processed (idempotency), also by orders/create
+ * 2. Retrieves the fulfillment location of every line item, falling back to the shop's location priority list
+ * 3. Processes line items and applies custom inventory deduction mappings
+ * 4. Adjusts inventory quantities based on configured mappings (target variant + multiplier)
+ * 5. Records every applied adjustment in the order's deduction ledger so it can be reversed exactly
+ */
+export async function handleOrdersPaid(
+  admin: AdminApiContext,
+  shop: string,
+  payload: unknown
+): Promise<void> {
+  console.log(`Order payload:`, JSON.stringify(payload, null, 2));
+
+  const deductions = await deductOrderForEvent(admin, shop, payload as OrderPayload, "orders/paid");
+
+  if (deductions.length === 0) {
+    return;
+  }
+
+  // Recalculate multipack inventory after processing order
+  try {
+    await scheduleRecalculation(shop, getAdjustmentScope(deductions));
+  } catch (error) {
+    console.error(`Error scheduling multipack inventory recalculation after order processing: ${error}`);
+    // Don't fail the job if scheduling the recalculation fails
+  }
+}
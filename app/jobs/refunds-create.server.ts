@@ -0,0 +1,94 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { getAdjustmentScope, scheduleRecalculation } from "../utils/recalculation-queue.server";
+import { reverseRestockedLineItems } from "../utils/restock-reversals.server";
+import type { RestockedLineItem } from "../utils/restock-reversals.server";
+
+interface RefundLineItem {
+  line_item_id: number;
+  quantity: number;
+  restock_type?: "no_restock" | "cancel" | "return" | "legacy_restock";
+  location_id?: number | null;
+  line_item?: {
+    variant_id?: number | null;
+  };
+}
+
+interface RefundPayload {
+  id?: number;
+  order_id?: number;
+  admin_graphql_api_id?: string;
+  return?: { id?: number } | null;
+  refund_line_items?: RefundLineItem[];
+}
+
+/**
+ * Job handler for refunds/create webhooks.
+ *
+ * When a refund restocks line items, Shopify puts back the ordered variant (e.g. one 6-pack)
+ * but the component deductions made when the order was paid stay in place. This handler
+ * reverses the proportional component deductions for every restocked unit.
+ *
+ * The handler:
+ * 1. Collects refund line items that were restocked (restock_type other than no_restock)
+ * 2. Skips lines restocked as part of a return, which handleReturnsClose handles
+ * 3. Reverses the recorded deductions per refunded quantity at the restock location
+ * 4. Recalculates multipack inventory
+ */
+export async function handleRefundsCreate(
+  admin: AdminApiContext,
+  shop: string,
+  payload: unknown
+): Promise<void> {
+  console.log(`Refund payload:`, JSON.stringify(payload, null, 2));
+
+  const refund = payload as RefundPayload;
+  const orderId = refund.order_id?.toString() || "";
+
+  if (!orderId || !refund.id) {
+    console.log("Order ID or refund ID not found in payload");
+    return;
+  }
+
+  const restockedLineItems: RestockedLineItem[] = (refund.refund_line_items || [])
+    .filter((refundLineItem) => {
+      if (!refundLineItem.restock_type || refundLineItem.restock_type === "no_restock") {
+        return false;
+      }
+      // Restocks for returns are reversed from the return's dispositions
+      return !(refundLineItem.restock_type === "return" && refund.return?.id);
+    })
+    .map((refundLineItem) => ({
+      lineItemId: refundLineItem.line_item_id.toString(),
+      variantId: refundLineItem.line_item?.variant_id || null,
+      quantity: refundLineItem.quantity,
+      locationId: refundLineItem.location_id
+        ? `gid://shopify/Location/${refundLineItem.location_id}`
+        : null,
+      unfulfilled: refundLineItem.restock_type === "cancel",
+    }));
+
+  if (restockedLineItems.length === 0) {
+    console.log("Refund has no restocked line items, skipping");
+    return;
+  }
+
+  const reversed = await reverseRestockedLineItems(
+    admin,
+    shop,
+    orderId,
+    restockedLineItems,
+    `refunds/create:${refund.id}`,
+    `gid://shopify/Order/${orderId}`,
+    { jobType: "refunds/create", payload }
+  );
+
+  if (reversed.length > 0) {
+    // Recalculate multipack inventory after restocking components
+    try {
+      await scheduleRecalculation(shop, getAdjustmentScope(reversed));
+    } catch (error) {
+      console.error(`Error scheduling multipack inventory recalculation after refund: ${error}`);
+      // Don't fail the job if scheduling the recalculation fails
+    }
+  }
+}
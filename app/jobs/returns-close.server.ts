@@ -0,0 +1,295 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { getAdjustmentScope, scheduleRecalculation } from "../utils/recalculation-queue.server";
+import { reverseRestockedLineItems } from "../utils/restock-reversals.server";
+import type { RestockedLineItem } from "../utils/restock-reversals.server";
+
+interface ReturnPayload {
+  id?: number;
+  admin_graphql_api_id?: string;
+}
+
+interface ReturnDisposition {
+  type: string;
+  quantity: number;
+  location?: { id: string } | null;
+}
+
+interface ReturnLineItemNode {
+  fulfillmentLineItem?: {
+    lineItem?: {
+      id: string;
+      variant?: { id: string } | null;
+    } | null;
+  } | null;
+  dispositions?: ReturnDisposition[];
+}
+
+interface ReturnLineItemsPage {
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  edges: Array<{ node: ReturnLineItemNode }>;
+}
+
+interface ReverseFulfillmentOrdersPage {
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  edges: Array<{ node: { id: string; lineItems: ReturnLineItemsPage } }>;
+}
+
+interface ReturnNode {
+  id: string;
+  order?: { id: string } | null;
+  reverseFulfillmentOrders: ReverseFulfillmentOrdersPage;
+}
+
+/**
+ * Load the remaining pages of a reverse fulfillment order's line items
+ */
+async function getRemainingReturnLineItems(
+  admin: AdminApiContext,
+  reverseFulfillmentOrderId: string,
+  after: string | null
+): Promise<ReturnLineItemsPage["edges"]> {
+  const edges: ReturnLineItemsPage["edges"] = [];
+  let cursor = after;
+
+  while (cursor) {
+    const response = await admin.graphql(
+      `#graphql
+        query getReverseFulfillmentOrderLineItems($id: ID!, $after: String) {
+          reverseFulfillmentOrder(id: $id) {
+            lineItems(first: 100, after: $after) {
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
+              edges {
+                node {
+                  fulfillmentLineItem {
+                    lineItem {
+                      id
+                      variant {
+                        id
+                      }
+                    }
+                  }
+                  dispositions {
+                    type
+                    quantity
+                    location {
+                      id
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      `,
+      {
+        variables: {
+          id: reverseFulfillmentOrderId,
+          after: cursor,
+        },
+      }
+    );
+
+    const data = await response.json();
+    const page: ReturnLineItemsPage | undefined = data.data?.reverseFulfillmentOrder?.lineItems;
+
+    if (!page) {
+      break;
+    }
+
+    edges.push(...page.edges);
+    cursor = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+  }
+
+  return edges;
+}
+
+/**
+ * Load a return with every line item of all its reverse fulfillment orders
+ */
+async function getReturnLineItems(
+  admin: AdminApiContext,
+  returnGid: string
+): Promise<{ orderGid: string | null; lineItems: ReturnLineItemNode[] }> {
+  const lineItems: ReturnLineItemNode[] = [];
+  let orderGid: string | null = null;
+  let after: string | null = null;
+
+  do {
+    const response = await admin.graphql(
+      `#graphql
+        query getReturn($id: ID!, $after: String) {
+          return(id: $id) {
+            id
+            order {
+              id
+            }
+            reverseFulfillmentOrders(first: 10, after: $after) {
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
+              edges {
+                node {
+                  id
+                  lineItems(first: 100) {
+                    pageInfo {
+                      hasNextPage
+                      endCursor
+                    }
+                    edges {
+                      node {
+                        fulfillmentLineItem {
+                          lineItem {
+                            id
+                            variant {
+                              id
+                            }
+                          }
+                        }
+                        dispositions {
+                          type
+                          quantity
+                          location {
+                            id
+                          }
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      `,
+      {
+        variables: {
+          id: returnGid,
+          after,
+        },
+      }
+    );
+
+    const data: { data?: { return?: ReturnNode | null } } = await response.json();
+    const returnNode = data.data?.return;
+
+    if (!returnNode) {
+      break;
+    }
+
+    orderGid = returnNode.order?.id || null;
+
+    for (const { node } of returnNode.reverseFulfillmentOrders.edges) {
+      lineItems.push(...node.lineItems.edges.map((edge) => edge.node));
+
+      if (node.lineItems.pageInfo.hasNextPage) {
+        const remaining = await getRemainingReturnLineItems(admin, node.id, node.lineItems.pageInfo.endCursor);
+        lineItems.push(...remaining.map((edge) => edge.node));
+      }
+    }
+
+    after = returnNode.reverseFulfillmentOrders.pageInfo.hasNextPage
+      ? returnNode.reverseFulfillmentOrders.pageInfo.endCursor
+      : null;
+  } while (after);
+
+  return { orderGid, lineItems };
+}
+
+/**
+ * Job handler for returns/close webhooks.
+ *
+ * Once a return is closed, its reverse fulfillment order line items record how many units
+ * were restocked and where. Shopify restocks the ordered variant, so this handler reverses
+ * the proportional component deductions for every RESTOCKED unit.
+ *
+ * The handler:
+ * 1. Loads the line items of all the return's reverse fulfillment orders and their dispositions
+ * 2. Sums the RESTOCKED quantities per line item and location
+ * 3. Reverses the recorded deductions per restocked quantity
+ * 4. Recalculates multipack inventory
+ */
+export async function handleReturnsClose(
+  admin: AdminApiContext,
+  shop: string,
+  payload: unknown
+): Promise<void> {
+  console.log(`Return payload:`, JSON.stringify(payload, null, 2));
+
+  const returnPayload = payload as ReturnPayload;
+  const returnGid =
+    returnPayload.admin_graphql_api_id || `gid://shopify/Return/${returnPayload.id}`;
+
+  if (!returnPayload.id && !returnPayload.admin_graphql_api_id) {
+    console.log("Return ID not found in payload");
+    return;
+  }
+
+  const { orderGid, lineItems } = await getReturnLineItems(admin, returnGid);
+  const orderId = orderGid?.split("/").pop() || "";
+
+  if (!orderGid || !orderId) {
+    console.log(`Order not found for return ${returnGid}`);
+    return;
+  }
+
+  // Sum restocked units per line item and location
+  const restocked = new Map<string, RestockedLineItem>();
+
+  for (const node of lineItems) {
+    const lineItem = node.fulfillmentLineItem?.lineItem;
+    if (!lineItem) {
+      continue;
+    }
+
+    for (const disposition of node.dispositions || []) {
+      if (disposition.type !== "RESTOCKED" || disposition.quantity <= 0) {
+        continue;
+      }
+
+      const lineItemId = lineItem.id.split("/").pop() || "";
+      const locationId = disposition.location?.id || null;
+      const key = `${lineItemId}:${locationId}`;
+      const existing = restocked.get(key);
+
+      if (existing) {
+        existing.quantity += disposition.quantity;
+      } else {
+        restocked.set(key, {
+          lineItemId,
+          variantId: lineItem.variant?.id ? Number(lineItem.variant.id.split("/").pop()) : null,
+          quantity: disposition.quantity,
+          locationId,
+        });
+      }
+    }
+  }
+
+  if (restocked.size === 0) {
+    console.log(`Return ${returnGid} has no restocked line items, skipping`);
+    return;
+  }
+
+  const reversed = await reverseRestockedLineItems(
+    admin,
+    shop,
+    orderId,
+    Array.from(restocked.values()),
+    `returns/close:${returnGid.split("/").pop()}`,
+    orderGid,
+    { jobType: "returns/close", payload }
+  );
+
+  if (reversed.length > 0) {
+    // Recalculate multipack inventory after restocking components
+    try {
+      await scheduleRecalculation(shop, getAdjustmentScope(reversed));
+    } catch (error) {
+      console.error(`Error scheduling multipack inventory recalculation after return: ${error}`);
+      // Don't fail the job if scheduling the recalculation fails
+    }
+  }
+}
@@ -0,0 +1,170 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { unauthenticated } from "../shopify.server";
+import { createAdminClient } from "../utils/admin-client.server";
+import {
+  claimNextJob,
+  completeJob,
+  failJob,
+  pruneCompletedJobs,
+} from "../utils/job-queue.server";
+import { handleOrdersCreate } from "./orders-create.server";
+import { handleOrdersPaid } from "./orders-paid.server";
+import { handleOrdersEdited } from "./orders-edited.server";
+import { handleOrdersCancelled } from "./orders-cancelled.server";
+import { handleFulfillmentsCreate } from "./fulfillments-create.server";
+import { handleFulfillmentOrdersMoved } from "./fulfillment-orders-moved.server";
+import { handleRefundsCreate } from "./refunds-create.server";
+import { handleReturnsClose } from "./returns-close.server";
+import { handleInventoryLevelsUpdate } from "./inventory-levels-update.server";
+import { handleInventoryRecalculate } from "./inventory-recalculate.server";
+import { RECALCULATION_JOB_TYPE } from "../utils/recalculation-queue.server";
+
+export type JobHandler = (
+  admin: AdminApiContext,
+  shop: string,
+  payload: unknown
+) => Promise<void>;
+
+/**
+ * Handlers of every job type. Webhook jobs are named after their topic.
+ */
+const JOB_HANDLERS: Record<string, JobHandler> = {
+  "orders/create": handleOrdersCreate,
+  "orders/paid": handleOrdersPaid,
+  "orders/edited": handleOrdersEdited,
+  "orders/cancelled": handleOrdersCancelled,
+  "fulfillments/create": handleFulfillmentsCreate,
+  "fulfillment_orders/moved": handleFulfillmentOrdersMoved,
+  "refunds/create": handleRefundsCreate,
+  "returns/close": handleReturnsClose,
+  "inventory_levels/update": handleInventoryLevelsUpdate,
+  [RECALCULATION_JOB_TYPE]: handleInventoryRecalculate,
+};
+
+// How long the worker waits before looking for new jobs once the queue is empty
+const POLL_INTERVAL_MS = 2000;
+
+// How often completed jobs past their retention period are deleted
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+interface JobWorkerState {
+  running: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+  current: Promise<void> | null;
+  lastPrunedAt: number;
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var jobWorkerGlobal: JobWorkerState | undefined;
+}
+
+/**
+ * Claim and run the next due job. Returns false when no job was due.
+ */
+export async function runNextJob(): Promise<boolean> {
+  const job = await claimNextJob();
+
+  if (!job) {
+    return false;
+  }
+
+  // A job reclaimed after its worker stopped during the last attempt isn't run again
+  if (job.attempts > job.maxAttempts) {
+    await failJob(job, job.lastError || "The worker stopped while running the job");
+    console.error(`Job ${job.id} (${job.type}) for ${job.shop} used all its attempts, giving up`);
+    return true;
+  }
+
+  console.log(`Running job ${job.id} (${job.type}) for ${job.shop}, attempt ${job.attempts}`);
+
+  try {
+    const handler = JOB_HANDLERS[job.type];
+    if (!handler) {
+      throw new Error(`No handler for job type ${job.type}`);
+    }
+
+    // Jobs run outside any request, on the shop's offline session, within its query cost budget
+    const { admin } = await unauthenticated.admin(job.shop);
+    await handler(createAdminClient(admin, job.shop), job.shop, JSON.parse(job.payload));
+
+    await completeJob(job.id);
+    console.log(`Completed job ${job.id} (${job.type}) for ${job.shop}`);
+  } catch (error) {
+    const status = await failJob(job, error);
+    console.error(
+      `Job ${job.id} (${job.type}) for ${job.shop} failed on attempt ${job.attempts}` +
+        `${status === "failed" ? ", giving up" : ", will retry"}: ${error}`
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Start processing queued jobs in this process, one at a time, until stopJobWorker is called.
+ * Calling it again while the worker runs does nothing.
+ */
+export function startJobWorker(): void {
+  if (globalThis.jobWorkerGlobal?.running) {
+    return;
+  }
+
+  const state: JobWorkerState = {
+    running: true,
+    timer: null,
+    current: null,
+    lastPrunedAt: 0,
+  };
+  globalThis.jobWorkerGlobal = state;
+
+  const tick = async () => {
+    let ranJob = false;
+
+    try {
+      if (Date.now() - state.lastPrunedAt > PRUNE_INTERVAL_MS) {
+        state.lastPrunedAt = Date.now();
+        const pruned = await pruneCompletedJobs();
+        if (pruned > 0) {
+          console.log(`Deleted ${pruned} completed job(s)`);
+        }
+      }
+
+      ranJob = await runNextJob();
+    } catch (error) {
+      // E.g. the database is unreachable; try again after the poll interval
+      console.error(`Error in job worker: ${error}`);
+    }
+
+    if (state.running) {
+      // Keep going while jobs are due, otherwise wait before looking again
+      state.timer = setTimeout(schedule, ranJob ? 0 : POLL_INTERVAL_MS);
+    }
+  };
+
+  const schedule = () => {
+    state.current = tick();
+  };
+
+  console.log("Job worker started");
+  schedule();
+}
+
+/**
+ * Stop the worker once its current job is done
+ */
+export async function stopJobWorker(): Promise<void> {
+  const state = globalThis.jobWorkerGlobal;
+
+  if (!state?.running) {
+    return;
+  }
+
+  state.running = false;
+  if (state.timer) {
+    clearTimeout(state.timer);
+  }
+  await state.current;
+
+  console.log("Job worker stopped");
+}
@@ -9,7 +9,41 @@ import { useAppBridge } from "@shopify/app-bridge-react";
 import { authenticate } from "../../shopify.server";
 import db from "../../db.server";
 import { boundary } from "@shopify/shopify-app-react-router/server";
-import { calculateMultipackInventory } from "../../utils/inventory-calculation.server";
+import { getAllActiveLocations } from "../../utils/inventory-calculation.server";
+import {
+  scheduleRecalculation,
+  scheduleRuleWindowRecalculations,
+} from "../../utils/recalculation-queue.server";
+import type { Location } from "../../utils/inventory-calculation.server";
+import { parseDeductionMappings } from "../../utils/bundle-expansion.server";
+import {
+  BUILD_YOUR_OWN_RULE_TYPE,
+  isBuildYourOwnRule,
+  parseChoiceVariantIds,
+  syncPickerMetafield,
+} from "../../utils/build-your-own.server";
+import type { ChoiceOption } from "../../utils/build-your-own.server";
+import { getVariantsById } from "../../utils/variant-catalog.server";
+import type { CatalogVariant } from "../../utils/variant-catalog.server";
+import { formatVariantLabel, VariantPicker } from "../../components/VariantPicker";
+import {
+  formatDateInTimeZone,
+  getShopTimeZone,
+  getStartOfDay,
+  isRuleInEffect,
+} from "../../utils/rule-schedule.server";
+import {
+  getChangedBy,
+  recordRuleVersion,
+  rollbackRuleVersion,
+} from "../../utils/rule-history.server";
+import type { RuleChange, RuleVersionAction } from "../../utils/rule-history.server";
+import type { loader as ruleHistoryLoader } from "../app.rule-history";
+import type { OversellPolicy } from "../../utils/shop-settings.server";
+import { getComponentUnits } from "../../utils/component-units.server";
+import { validateRule } from "../../utils/rule-validation.server";
+import { parseLocationMappings } from "../../utils/location-rules.server";
+import type { LocationMappings } from "../../utils/location-rules.server";
 
 interface Product {
   id: string;
@@ -29,6 +63,8 @@ interface Product {
 interface DeductionMapping {
   targetVariantId: string;
   multiplier: number;
+  substitutes?: string[]; // Variants deducted instead, in order, when the target is short
+  unitSize?: number; // Set when the multiplier counts base units of a target stocked in packs of this size
 }
 
 interface VariantRule {
@@ -38,12 +74,29 @@ interface VariantRule {
   multiplier: number | null;
   varietyPackFlavorIds: string | null;
   deductionMappings: string | null; // JSON array of DeductionMapping
+  locationMappings: string | null; // JSON object of DeductionMapping arrays by location ID, overriding deductionMappings
   calculateInventoryForSelfMapping: boolean; // Toggle to calculate inventory when variant maps to itself
+  choiceVariantIds: string | null; // JSON array of variant IDs customers may pick (build-your-own box)
+  choiceCount: number | null;
+  quantityPerChoice: number | null;
+  effectiveFrom: string | null; // First day the rule is in effect (YYYY-MM-DD, shop time zone)
+  effectiveTo: string | null; // Last day the rule is in effect (YYYY-MM-DD, shop time zone)
+  oversellPolicy: string | null; // Overrides the shop's oversell policy
+  inEffect: boolean;
 }
 
 interface LoaderData {
   products: Product[];
   variantRules: VariantRule[];
+  targetVariants: CatalogVariant[]; // Variants referenced by the rules, from any product
+  locations: Location[];
+  componentUnits: Record<string, ComponentUnitOption>; // Units of components stocked in packs, by variant ID
+}
+
+interface ComponentUnitOption {
+  unitName: string;
+  baseUnitName: string;
+  unitSize: number;
 }
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
@@ -113,29 +166,71 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   }
 
   // Fetch existing variant rules
-  const variantRules = await db.variantRule.findMany({
+  const storedRules = await db.variantRule.findMany({
     where: { shop: session.shop },
+    orderBy: [{ effectiveFrom: "asc" }, { createdAt: "asc" }],
   });
 
+  // Windows are edited as calendar days in the shop's time zone; the stored end is exclusive
+  const timeZone = await getShopTimeZone(admin);
+  const now = new Date();
+  const variantRules = storedRules.map((rule) => ({
+    ...rule,
+    effectiveFrom: rule.effectiveFrom ? formatDateInTimeZone(rule.effectiveFrom, timeZone) : null,
+    effectiveTo: rule.effectiveTo
+      ? formatDateInTimeZone(new Date(rule.effectiveTo.getTime() - 1), timeZone)
+      : null,
+    inEffect: isRuleInEffect(rule, now),
+  }));
+
+  // Look up the variants the rules point at, which may belong to other products
+  const targetVariants = await getVariantsById(
+    admin,
+    storedRules.flatMap((rule) => [
+      ...[
+        ...(parseDeductionMappings(rule.deductionMappings) || []),
+        ...Object.values(parseLocationMappings(rule.locationMappings)).flat(),
+      ].flatMap((mapping) => [mapping.targetVariantId, ...(mapping.substitutes || [])]),
+      ...parseChoiceVariantIds(rule.choiceVariantIds),
+    ])
+  );
+
+  const [componentUnits, locations] = await Promise.all([
+    getComponentUnits(session.shop),
+    getAllActiveLocations(admin),
+  ]);
+
   return {
     products,
     variantRules,
+    targetVariants,
+    locations,
+    componentUnits: Object.fromEntries(
+      componentUnits.map((unit) => [
+        unit.variantId,
+        { unitName: unit.unitName, baseUnitName: unit.baseUnitName, unitSize: unit.unitSize },
+      ])
+    ),
   };
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { admin, session } = await authenticate.admin(request);
+  const { admin, session, sessionToken } = await authenticate.admin(request);
 
   if (!session) {
     throw new Response("Unauthorized", { status: 401 });
   }
 
+  const changedBy = getChangedBy(session, sessionToken);
+
   const formData = await request.formData();
   const action = formData.get("action");
 
   if (action === "save") {
     const variantId = formData.get("variantId") as string;
+    const ruleId = (formData.get("ruleId") as string) || null;
     const deductionMappingsJson = formData.get("deductionMappings") as string;
+    const isBox = formData.get("ruleType") === BUILD_YOUR_OWN_RULE_TYPE;
 
     if (!variantId) {
       return { error: "Variant ID is required" };
@@ -146,72 +241,260 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       return { error: "Deduction mappings are required" };
     }
 
-    let deductionMappings: Array<{ targetVariantId: string; multiplier: number }>;
+    let deductionMappings: DeductionMapping[];
+    let locationMappings: LocationMappings;
     try {
       deductionMappings = JSON.parse(deductionMappingsJson);
-      if (!Array.isArray(deductionMappings) || deductionMappings.length === 0) {
-        return { error: "At least one deduction mapping is required" };
-      }
-      for (const mapping of deductionMappings) {
-        if (!mapping.targetVariantId || !mapping.multiplier || mapping.multiplier < 1) {
-          return { error: "Each mapping must have a valid target variant and multiplier >= 1" };
-        }
-      }
+      locationMappings = JSON.parse((formData.get("locationMappings") as string) || "{}");
     } catch (error) {
       return { error: "Invalid deduction mappings format" };
     }
 
+    // Read the build-your-own box picker
+    let choiceVariantIds: string[] = [];
+    let choiceCount: number | null = null;
+    let quantityPerChoice: number | null = null;
+
+    if (isBox) {
+      try {
+        choiceVariantIds = JSON.parse((formData.get("choiceVariantIds") as string) || "[]");
+      } catch (error) {
+        return { error: "Invalid allowed variants format" };
+      }
+      if (Array.isArray(choiceVariantIds)) {
+        choiceVariantIds = Array.from(new Set(choiceVariantIds));
+      }
+      choiceCount = Number(formData.get("choiceCount"));
+      quantityPerChoice = Number(formData.get("quantityPerChoice"));
+    }
+
+    const existingRules = await db.variantRule.findMany({
+      where: { shop: session.shop },
+    });
+    const existingRule = ruleId ? existingRules.find((rule) => rule.id === ruleId) : undefined;
+    if (ruleId && existingRule?.variantId !== variantId) {
+      return { error: "Rule not found" };
+    }
+    const otherRules = existingRules.filter((rule) => rule.id !== ruleId);
+
+    // Read the schedule: whole days in the shop's time zone, the end day included
+    const effectiveFromDate = (formData.get("effectiveFrom") as string) || "";
+    const effectiveToDate = (formData.get("effectiveTo") as string) || "";
+    let effectiveFrom: Date | null = null;
+    let effectiveTo: Date | null = null;
+
+    if (effectiveFromDate || effectiveToDate) {
+      const timeZone = await getShopTimeZone(admin);
+      effectiveFrom = effectiveFromDate ? getStartOfDay(effectiveFromDate, timeZone) : null;
+      effectiveTo = effectiveToDate ? getStartOfDay(effectiveToDate, timeZone, 1) : null;
+
+      if ((effectiveFromDate && !effectiveFrom) || (effectiveToDate && !effectiveTo)) {
+        return { error: "Invalid effective dates" };
+      }
+    }
+
     const calculateInventoryForSelfMapping = formData.get("calculateInventoryForSelfMapping") === "true";
 
-    // Upsert the variant rule
-    await db.variantRule.upsert({
-      where: {
-        shop_variantId: {
-          shop: session.shop,
-          variantId,
-        },
-      },
-      create: {
-        shop: session.shop,
+    // An empty policy follows the shop's setting
+    const oversellPolicy = (formData.get("oversellPolicy") as string) || null;
+
+    const validation = await validateRule(
+      admin,
+      session.shop,
+      {
         variantId,
-        deductionMappings: deductionMappingsJson,
-        calculateInventoryForSelfMapping,
-      },
-      update: {
-        deductionMappings: deductionMappingsJson,
-        calculateInventoryForSelfMapping,
+        type: isBox ? BUILD_YOUR_OWN_RULE_TYPE : null,
+        deductionMappings,
+        locationMappings,
+        choiceVariantIds,
+        choiceCount,
+        quantityPerChoice,
+        effectiveFrom,
+        effectiveTo,
+        oversellPolicy,
       },
+      otherRules
+    );
+
+    if ("error" in validation) {
+      return { error: validation.error };
+    }
+
+    const choiceOptions: ChoiceOption[] = choiceVariantIds.map((choiceVariantId) => {
+      const choiceVariant = validation.variants.get(choiceVariantId);
+      return {
+        id: choiceVariantId,
+        title: choiceVariant ? `${choiceVariant.productTitle} - ${choiceVariant.title}` : choiceVariantId,
+      };
     });
 
-    // Calculate and update multipack inventory after saving rule
+    const proposedRule = {
+      deductionMappings: deductionMappings.length > 0 ? deductionMappingsJson : null,
+      locationMappings: Object.keys(locationMappings).length > 0 ? JSON.stringify(locationMappings) : null,
+    };
+
+    const boxFields = {
+      choiceVariantIds: isBox ? JSON.stringify(choiceVariantIds) : null,
+      choiceCount,
+      quantityPerChoice,
+    };
+
+    // Update the edited rule or add a new one; a variant may have several scheduled rules
+    let savedRule;
+    if (existingRule) {
+      savedRule = await db.variantRule.update({
+        where: { id: existingRule.id },
+        data: {
+          // Keep legacy rule types, only switch between mappings and build-your-own boxes
+          ...(isBox || isBuildYourOwnRule(existingRule)
+            ? { type: isBox ? BUILD_YOUR_OWN_RULE_TYPE : null }
+            : {}),
+          ...proposedRule,
+          calculateInventoryForSelfMapping,
+          effectiveFrom,
+          effectiveTo,
+          oversellPolicy,
+          ...boxFields,
+        },
+      });
+    } else {
+      savedRule = await db.variantRule.create({
+        data: {
+          shop: session.shop,
+          variantId,
+          type: isBox ? BUILD_YOUR_OWN_RULE_TYPE : null,
+          ...proposedRule,
+          calculateInventoryForSelfMapping,
+          effectiveFrom,
+          effectiveTo,
+          oversellPolicy,
+          ...boxFields,
+        },
+      });
+    }
+
+    await recordRuleVersion(
+      session.shop,
+      existingRule ? "update" : "create",
+      existingRule || null,
+      savedRule,
+      changedBy
+    );
+
+    // Publish the picker for the theme block, or remove it when the variant stops being a box
+    if (isBox || (existingRule && isBuildYourOwnRule(existingRule))) {
+      try {
+        await syncPickerMetafield(
+          admin,
+          variantId,
+          isBox && choiceCount && quantityPerChoice
+            ? { choiceCount, quantityPerChoice, options: choiceOptions }
+            : null
+        );
+      } catch (error) {
+        console.error(`Error updating build-your-own picker: ${error}`);
+        // Don't fail the action if the picker can't be published
+      }
+    }
+
+    // Recalculate multipack inventory after saving rule, and when its window starts and ends
     try {
-      await calculateMultipackInventory(admin, session.shop);
+      await scheduleRecalculation(session.shop);
+      await scheduleRuleWindowRecalculations(session.shop, savedRule);
     } catch (error) {
-      console.error(`Error calculating multipack inventory after rule save: ${error}`);
-      // Don't fail the action if multipack calculation fails
+      console.error(`Error scheduling multipack inventory recalculation after rule save: ${error}`);
+      // Don't fail the action if scheduling the recalculation fails
     }
 
     return { success: true };
   } else if (action === "delete") {
-    const variantId = formData.get("variantId") as string;
+    const ruleId = formData.get("ruleId") as string;
 
-    if (!variantId) {
-      return { error: "Variant ID is required" };
+    if (!ruleId) {
+      return { error: "Rule ID is required" };
     }
 
-    await db.variantRule.deleteMany({
+    const deletedRule = await db.variantRule.findFirst({
       where: {
+        id: ruleId,
         shop: session.shop,
-        variantId,
       },
     });
 
-    // Calculate and update multipack inventory after deleting rule
+    if (!deletedRule) {
+      return { error: "Rule not found" };
+    }
+
+    await db.variantRule.delete({
+      where: { id: deletedRule.id },
+    });
+
+    await recordRuleVersion(session.shop, "delete", deletedRule, null, changedBy);
+
+    if (isBuildYourOwnRule(deletedRule)) {
+      try {
+        await syncPickerMetafield(admin, deletedRule.variantId, null);
+      } catch (error) {
+        console.error(`Error removing build-your-own picker: ${error}`);
+        // Don't fail the action if the picker can't be removed
+      }
+    }
+
+    // Recalculate multipack inventory after deleting rule
     try {
-      await calculateMultipackInventory(admin, session.shop);
+      await scheduleRecalculation(session.shop);
     } catch (error) {
-      console.error(`Error calculating multipack inventory after rule delete: ${error}`);
-      // Don't fail the action if multipack calculation fails
+      console.error(`Error scheduling multipack inventory recalculation after rule delete: ${error}`);
+      // Don't fail the action if scheduling the recalculation fails
+    }
+
+    return { success: true };
+  } else if (action === "rollback") {
+    const versionId = formData.get("versionId") as string;
+
+    if (!versionId) {
+      return { error: "Version ID is required" };
+    }
+
+    const result = await rollbackRuleVersion(admin, session.shop, versionId, changedBy);
+
+    if ("error" in result) {
+      return { error: result.error };
+    }
+
+    const { previous, restored } = result;
+
+    // Publish the restored picker, or remove it when the variant stops being a box
+    if (isBuildYourOwnRule(restored) || (previous && isBuildYourOwnRule(previous))) {
+      try {
+        const choiceVariants = await getVariantsById(admin, parseChoiceVariantIds(restored.choiceVariantIds));
+        await syncPickerMetafield(
+          admin,
+          restored.variantId,
+          isBuildYourOwnRule(restored) && restored.choiceCount && restored.quantityPerChoice
+            ? {
+                choiceCount: restored.choiceCount,
+                quantityPerChoice: restored.quantityPerChoice,
+                options: choiceVariants.map((choiceVariant) => ({
+                  id: choiceVariant.id,
+                  title: `${choiceVariant.productTitle} - ${choiceVariant.title}`,
+                })),
+              }
+            : null
+        );
+      } catch (error) {
+        console.error(`Error updating build-your-own picker: ${error}`);
+        // Don't fail the action if the picker can't be published
+      }
+    }
+
+    // Recalculate multipack inventory after restoring the rule, and when its window starts and ends
+    try {
+      await scheduleRecalculation(session.shop);
+      await scheduleRuleWindowRecalculations(session.shop, restored);
+    } catch (error) {
+      console.error(`Error scheduling multipack inventory recalculation after rule rollback: ${error}`);
+      // Don't fail the action if scheduling the recalculation fails
     }
 
     return { success: true };
@@ -220,9 +503,36 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   return { error: "Invalid action" };
 };
 
+const RULE_FIELD_LABELS: Record<RuleChange["field"], string> = {
+  type: "Rule type",
+  deductionMappings: "Deduction mappings",
+  locationMappings: "Location overrides",
+  calculateInventoryForSelfMapping: "Auto-calculate inventory",
+  choiceVariantIds: "Allowed variants",
+  choiceCount: "Number of picks",
+  quantityPerChoice: "Quantity per pick",
+  effectiveFrom: "Effective from",
+  effectiveTo: "Effective to",
+  oversellPolicy: "Oversell policy",
+};
+
+const OVERSELL_POLICY_LABELS: Record<OversellPolicy, string> = {
+  allow_negative: "Let stock go negative",
+  clamp: "Stop at zero and record the shortfall",
+  clamp_and_alert: "Stop at zero, record the shortfall and tag the order",
+};
+
+const RULE_VERSION_ACTION_LABELS: Record<RuleVersionAction, string> = {
+  create: "Created",
+  update: "Updated",
+  delete: "Deleted",
+  rollback: "Restored",
+};
+
 export default function InventoryConfig() {
-  const { products, variantRules } = useLoaderData<LoaderData>();
+  const { products, variantRules, targetVariants, locations, componentUnits } = useLoaderData<LoaderData>();
   const fetcher = useFetcher();
+  const historyFetcher = useFetcher<typeof ruleHistoryLoader>();
   const shopify = useAppBridge();
   
   // Debug logging
@@ -235,8 +545,25 @@ export default function InventoryConfig() {
   }, [products]);
   const [selectedProductId, setSelectedProductId] = useState<string>("");
   const [editingVariantId, setEditingVariantId] = useState<string | null>(null);
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+  const [effectiveFrom, setEffectiveFrom] = useState<string>("");
+  const [effectiveTo, setEffectiveTo] = useState<string>("");
+  const [oversellPolicy, setOversellPolicy] = useState<string>("");
   const [deductionMappings, setDeductionMappings] = useState<DeductionMapping[]>([]);
+  const [locationMappings, setLocationMappings] = useState<LocationMappings>({});
+  // Location whose override is being edited, or "" for the mappings used everywhere else
+  const [mappingLocationId, setMappingLocationId] = useState<string>("");
   const [calculateInventoryForSelfMapping, setCalculateInventoryForSelfMapping] = useState<boolean>(false);
+  const [ruleType, setRuleType] = useState<"mappings" | "build_your_own">("mappings");
+  const [choiceVariantIds, setChoiceVariantIds] = useState<string[]>([]);
+  const [choiceCount, setChoiceCount] = useState<number>(1);
+  const [quantityPerChoice, setQuantityPerChoice] = useState<number>(1);
+  const [pickingMappingIndex, setPickingMappingIndex] = useState<number | null>(null);
+  const [historyVariantId, setHistoryVariantId] = useState<string | null>(null);
+  // Labels of every variant shown in the editor, including targets picked from other products
+  const [variantLabels, setVariantLabels] = useState<Record<string, string>>(() =>
+    Object.fromEntries(targetVariants.map((targetVariant) => [targetVariant.id, formatVariantLabel(targetVariant)]))
+  );
 
   useEffect(() => {
     if (fetcher.data?.success) {
@@ -250,28 +577,54 @@ export default function InventoryConfig() {
   }, [fetcher.data, shopify]);
 
   const selectedProduct = products.find((p) => p.id === selectedProductId);
-  const allVariants = products.flatMap((p) =>
-    p.variants.edges.map((edge) => ({
-      ...edge.node,
-      productTitle: p.title,
-      productId: p.id,
-    }))
-  );
-  
-  // Get variants from the same product as the variant being edited
-  const getSameProductVariants = (variantId: string) => {
-    const variant = allVariants.find((v) => v.id === variantId);
-    if (!variant) return allVariants;
-    return allVariants.filter((v) => v.productId === variant.productId);
+
+  const getVariantLabel = (variantId: string) => {
+    if (variantLabels[variantId]) {
+      return variantLabels[variantId];
+    }
+    for (const product of products) {
+      const productVariant = product.variants.edges.find((edge) => edge.node.id === variantId)?.node;
+      if (productVariant) {
+        return formatVariantLabel({ ...productVariant, productTitle: product.title });
+      }
+    }
+    return variantId;
+  };
+
+  const getLocationName = (locationId: string) =>
+    locations.find((location) => location.id === locationId)?.name || `Location ${locationId.split("/").pop()}`;
+
+  const rememberVariant = (catalogVariant: CatalogVariant) => {
+    setVariantLabels((current) => ({ ...current, [catalogVariant.id]: formatVariantLabel(catalogVariant) }));
   };
 
-  const getRuleForVariant = (variantId: string) => {
-    return variantRules.find((r) => r.variantId === variantId);
+  // Rules without a schedule come first, scheduled rules in order of their start date
+  const getRulesForVariant = (variantId: string) => {
+    return variantRules
+      .filter((r) => r.variantId === variantId)
+      .sort((a, b) => (a.effectiveFrom || a.effectiveTo ? 1 : 0) - (b.effectiveFrom || b.effectiveTo ? 1 : 0));
   };
 
-  const startEditing = (variantId: string) => {
-    const rule = getRuleForVariant(variantId);
+  const formatSchedule = (rule: VariantRule) => {
+    if (rule.effectiveFrom && rule.effectiveTo) {
+      return `${rule.effectiveFrom} to ${rule.effectiveTo}`;
+    }
+    if (rule.effectiveFrom) {
+      return `from ${rule.effectiveFrom}`;
+    }
+    if (rule.effectiveTo) {
+      return `until ${rule.effectiveTo}`;
+    }
+    return "always, unless a scheduled rule is in effect";
+  };
+
+  const startEditing = (variantId: string, rule?: VariantRule) => {
     setEditingVariantId(variantId);
+    setEditingRuleId(rule?.id || null);
+    setEffectiveFrom(rule?.effectiveFrom || "");
+    setEffectiveTo(rule?.effectiveTo || "");
+    setOversellPolicy(rule?.oversellPolicy || "");
+    setPickingMappingIndex(null);
     if (rule && rule.deductionMappings) {
       try {
         const mappings = JSON.parse(rule.deductionMappings);
@@ -286,41 +639,138 @@ export default function InventoryConfig() {
     } else {
       setDeductionMappings([]);
     }
+    try {
+      const overrides = rule?.locationMappings ? JSON.parse(rule.locationMappings) : {};
+      setLocationMappings(overrides && typeof overrides === "object" && !Array.isArray(overrides) ? overrides : {});
+    } catch {
+      setLocationMappings({});
+    }
+    setMappingLocationId("");
     // Load toggle value
     setCalculateInventoryForSelfMapping(rule?.calculateInventoryForSelfMapping || false);
+    // Load build-your-own box picker
+    setRuleType(rule?.type === "build_your_own" ? "build_your_own" : "mappings");
+    try {
+      const ids = rule?.choiceVariantIds ? JSON.parse(rule.choiceVariantIds) : [];
+      setChoiceVariantIds(Array.isArray(ids) ? ids : []);
+    } catch {
+      setChoiceVariantIds([]);
+    }
+    setChoiceCount(rule?.choiceCount || 1);
+    setQuantityPerChoice(rule?.quantityPerChoice || 1);
+  };
+
+  // The editor shows the mappings of the selected location's override, or the default ones
+  const editedMappings = mappingLocationId ? locationMappings[mappingLocationId] || [] : deductionMappings;
+
+  const setEditedMappings = (mappings: DeductionMapping[]) => {
+    if (mappingLocationId) {
+      setLocationMappings({ ...locationMappings, [mappingLocationId]: mappings });
+    } else {
+      setDeductionMappings(mappings);
+    }
+  };
+
+  const selectMappingLocation = (locationId: string) => {
+    setMappingLocationId(locationId);
+    setPickingMappingIndex(null);
+  };
+
+  // An override starts as a copy of the default mappings
+  const overrideLocation = (locationId: string) => {
+    setLocationMappings({
+      ...locationMappings,
+      [locationId]: deductionMappings.map((mapping) => ({ ...mapping })),
+    });
+  };
+
+  const removeLocationOverride = (locationId: string) => {
+    const remaining = { ...locationMappings };
+    delete remaining[locationId];
+    setLocationMappings(remaining);
+    setPickingMappingIndex(null);
   };
 
   const addMapping = () => {
-    setDeductionMappings([
-      ...deductionMappings,
+    setEditedMappings([
+      ...editedMappings,
       { targetVariantId: "", multiplier: 1 },
     ]);
   };
 
-  const updateMapping = (index: number, field: keyof DeductionMapping, value: string | number) => {
-    const updated = [...deductionMappings];
+  const updateMapping = (index: number, field: "targetVariantId" | "multiplier", value: string | number) => {
+    const updated = [...editedMappings];
     updated[index] = { ...updated[index], [field]: value };
-    setDeductionMappings(updated);
+    // A variant can't substitute for itself, and the unit belongs to the old target
+    if (field === "targetVariantId") {
+      updated[index].substitutes = updated[index].substitutes?.filter((id) => id !== value);
+      delete updated[index].unitSize;
+    }
+    setEditedMappings(updated);
+  };
+
+  const updateMappingUnit = (index: number, unitSize: number | undefined) => {
+    const updated = [...editedMappings];
+    updated[index] = { ...updated[index], unitSize };
+    if (!unitSize) {
+      delete updated[index].unitSize;
+    }
+    setEditedMappings(updated);
+  };
+
+  // Unit the multiplier of a mapping counts, e.g. "case" or "each"
+  const getMappingUnitName = (mapping: DeductionMapping) => {
+    const unit = componentUnits[mapping.targetVariantId];
+    if (mapping.unitSize) {
+      return unit?.baseUnitName || `1/${mapping.unitSize} unit`;
+    }
+    return unit?.unitName || null;
+  };
+
+  const updateSubstitutes = (index: number, substitutes: string[]) => {
+    const updated = [...editedMappings];
+    updated[index] = { ...updated[index], substitutes };
+    setEditedMappings(updated);
   };
 
   const removeMapping = (index: number) => {
-    setDeductionMappings(deductionMappings.filter((_, i) => i !== index));
+    setEditedMappings(editedMappings.filter((_, i) => i !== index));
+    setPickingMappingIndex(null);
   };
 
   const handleSave = (variantId: string) => {
+    const isBox = ruleType === "build_your_own";
+
     // Validate mappings
-    if (deductionMappings.length === 0) {
+    if (deductionMappings.length === 0 && !isBox) {
       shopify.toast.show("Please add at least one deduction mapping", { isError: true });
       return;
     }
 
-    for (const mapping of deductionMappings) {
+    if (effectiveFrom && effectiveTo && effectiveFrom > effectiveTo) {
+      shopify.toast.show("The effective end date must not be before the start date", { isError: true });
+      return;
+    }
+
+    if (isBox && choiceVariantIds.length === 0) {
+      shopify.toast.show("Please add at least one variant customers can pick", { isError: true });
+      return;
+    }
+
+    for (const mappings of Object.values(locationMappings)) {
+      if (mappings.length === 0) {
+        shopify.toast.show("Please add a deduction mapping to each location override, or remove it", { isError: true });
+        return;
+      }
+    }
+
+    for (const mapping of [...deductionMappings, ...Object.values(locationMappings).flat()]) {
       if (!mapping.targetVariantId) {
         shopify.toast.show("Please select a target variant for all mappings", { isError: true });
         return;
       }
-      if (mapping.multiplier < 1) {
-        shopify.toast.show("Multiplier must be at least 1", { isError: true });
+      if (!(mapping.multiplier > 0)) {
+        shopify.toast.show("Multiplier must be greater than 0", { isError: true });
         return;
       }
     }
@@ -328,16 +778,84 @@ export default function InventoryConfig() {
     const formData = new FormData();
     formData.append("action", "save");
     formData.append("variantId", variantId);
+    formData.append("ruleId", editingRuleId || "");
+    formData.append("effectiveFrom", effectiveFrom);
+    formData.append("effectiveTo", effectiveTo);
+    formData.append("oversellPolicy", oversellPolicy);
     formData.append("deductionMappings", JSON.stringify(deductionMappings));
+    formData.append("locationMappings", JSON.stringify(locationMappings));
     formData.append("calculateInventoryForSelfMapping", calculateInventoryForSelfMapping.toString());
+    formData.append("ruleType", ruleType);
+    if (isBox) {
+      formData.append("choiceVariantIds", JSON.stringify(choiceVariantIds));
+      formData.append("choiceCount", choiceCount.toString());
+      formData.append("quantityPerChoice", quantityPerChoice.toString());
+    }
     fetcher.submit(formData, { method: "POST" });
   };
 
-  const handleDelete = (variantId: string) => {
+  const toggleHistory = (variantId: string) => {
+    if (historyVariantId === variantId) {
+      setHistoryVariantId(null);
+      return;
+    }
+    setHistoryVariantId(variantId);
+    historyFetcher.load(`/app/rule-history?variantId=${encodeURIComponent(variantId)}`);
+  };
+
+  const formatRuleValue = (field: RuleChange["field"], value: RuleChange["before"]): string => {
+    if (field === "type") {
+      return value === "build_your_own" ? "Build-your-own box" : (value as string | null) || "Fixed components";
+    }
+    if (value === null || value === undefined) {
+      return "—";
+    }
+    if (field === "deductionMappings") {
+      return (value as DeductionMapping[])
+        .map(
+          (mapping) =>
+            `${getVariantLabel(mapping.targetVariantId)} × ${mapping.multiplier}${
+              mapping.unitSize ? ` ${getMappingUnitName(mapping)}` : ""
+            }${
+              mapping.substitutes?.length ? ` (or ${mapping.substitutes.map(getVariantLabel).join(", ")})` : ""
+            }`
+        )
+        .join(", ");
+    }
+    if (field === "locationMappings") {
+      const overrides = Object.entries(value as LocationMappings);
+      return overrides.length > 0
+        ? overrides
+            .map(([locationId, mappings]) => `${getLocationName(locationId)}: ${formatRuleValue("deductionMappings", mappings)}`)
+            .join("; ")
+        : "—";
+    }
+    if (field === "choiceVariantIds") {
+      return (value as string[]).map(getVariantLabel).join(", ");
+    }
+    if (field === "oversellPolicy") {
+      return OVERSELL_POLICY_LABELS[value as OversellPolicy] || value.toString();
+    }
+    if (typeof value === "boolean") {
+      return value ? "Yes" : "No";
+    }
+    return value.toString();
+  };
+
+  const handleRollback = (versionId: string) => {
+    if (confirm("Restore the rule to this version?")) {
+      const formData = new FormData();
+      formData.append("action", "rollback");
+      formData.append("versionId", versionId);
+      fetcher.submit(formData, { method: "POST" });
+    }
+  };
+
+  const handleDelete = (ruleId: string) => {
     if (confirm("Are you sure you want to delete this rule?")) {
       const formData = new FormData();
       formData.append("action", "delete");
-      formData.append("variantId", variantId);
+      formData.append("ruleId", ruleId);
       fetcher.submit(formData, { method: "POST" });
     }
   };
@@ -395,7 +913,7 @@ export default function InventoryConfig() {
               <s-stack direction="block" gap="base">
                 {selectedProduct.variants.edges.map((edge) => {
                   const variant = edge.node;
-                  const rule = getRuleForVariant(variant.id);
+                  const rules = getRulesForVariant(variant.id);
                   const isEditing = editingVariantId === variant.id;
 
                   return (
@@ -404,7 +922,7 @@ export default function InventoryConfig() {
                       padding="base"
                       borderWidth="base"
                       borderRadius="base"
-                      background={rule ? "subdued" : undefined}
+                      background={rules.length > 0 ? "subdued" : undefined}
                     >
                       <s-stack direction="block" gap="base">
                         <s-stack direction="inline" gap="base" alignment="space-between">
@@ -413,27 +931,6 @@ export default function InventoryConfig() {
                             {variant.sku && (
                               <s-text tone="subdued"> (SKU: {variant.sku})</s-text>
                             )}
-                            {rule && rule.deductionMappings && (() => {
-                              try {
-                                const mappings = JSON.parse(rule.deductionMappings);
-                                if (Array.isArray(mappings) && mappings.length > 0) {
-                                  return (
-                                    <s-text tone="success">
-                                      {" "}
-                                      - {mappings.length} mapping{mappings.length !== 1 ? 's' : ''} configured
-                                    </s-text>
-                                  );
-                                }
-                              } catch {
-                                return null;
-                              }
-                            })()}
-                            {rule && !rule.deductionMappings && rule.type && (
-                              <s-text tone="subdued">
-                                {" "}
-                                - Legacy rule: {rule.type}
-                              </s-text>
-                            )}
                           </div>
                           {!isEditing && (
                             <s-stack direction="inline" gap="base">
@@ -441,19 +938,132 @@ export default function InventoryConfig() {
                                 variant="secondary"
                                 onClick={() => startEditing(variant.id)}
                               >
-                                {rule ? "Edit" : "Configure"}
+                                {rules.length > 0 ? "Add scheduled rule" : "Configure"}
+                              </s-button>
+                              <s-button
+                                variant="tertiary"
+                                onClick={() => toggleHistory(variant.id)}
+                              >
+                                {historyVariantId === variant.id ? "Hide history" : "History"}
                               </s-button>
-                              {rule && (
+                            </s-stack>
+                          )}
+                        </s-stack>
+
+                        {historyVariantId === variant.id && (
+                          <s-box padding="base" borderWidth="base" borderRadius="base">
+                            <s-stack direction="block" gap="base">
+                              <s-heading>Rule History</s-heading>
+                              {historyFetcher.state === "loading" && <s-spinner accessibilityLabel="Loading history" />}
+                              {historyFetcher.data?.variantId === variant.id && historyFetcher.data.versions.length === 0 && (
+                                <s-text color="subdued">No changes recorded yet</s-text>
+                              )}
+                              {historyFetcher.data?.variantId === variant.id &&
+                                historyFetcher.data.versions.map((version) => (
+                                  <s-box key={version.id} padding="base" borderWidth="base" borderRadius="base">
+                                    <s-stack direction="block" gap="base">
+                                      <s-stack direction="inline" gap="base" justifyContent="space-between">
+                                        <s-text>
+                                          {RULE_VERSION_ACTION_LABELS[version.action as RuleVersionAction] || version.action}
+                                          {version.changedBy ? ` by ${version.changedBy}` : ""} on{" "}
+                                          {new Date(version.createdAt).toLocaleString()}
+                                        </s-text>
+                                        <s-button
+                                          variant="tertiary"
+                                          onClick={() => handleRollback(version.id)}
+                                          loading={fetcher.state === "submitting"}
+                                        >
+                                          {version.action === "delete" ? "Restore deleted rule" : "Restore this version"}
+                                        </s-button>
+                                      </s-stack>
+                                      {version.changes.map((change) => (
+                                        <s-text key={change.field} color="subdued">
+                                          {RULE_FIELD_LABELS[change.field]}:{" "}
+                                          {version.action === "create"
+                                            ? formatRuleValue(change.field, change.after)
+                                            : version.action === "delete"
+                                              ? formatRuleValue(change.field, change.before)
+                                              : `${formatRuleValue(change.field, change.before)} → ${formatRuleValue(change.field, change.after)}`}
+                                        </s-text>
+                                      ))}
+                                    </s-stack>
+                                  </s-box>
+                                ))}
+                            </s-stack>
+                          </s-box>
+                        )}
+
+                        {rules.map((rule) => (
+                          <s-stack key={rule.id} direction="inline" gap="base" justifyContent="space-between">
+                            <div>
+                              {rule.type === "build_your_own" && (
+                                <s-text tone="success">
+                                  Build-your-own box ({rule.choiceCount} pick{rule.choiceCount !== 1 ? 's' : ''})
+                                </s-text>
+                              )}
+                              {rule.type !== "build_your_own" && rule.deductionMappings && (() => {
+                                try {
+                                  const mappings = JSON.parse(rule.deductionMappings);
+                                  if (Array.isArray(mappings) && mappings.length > 0) {
+                                    return (
+                                      <s-text tone="success">
+                                        {mappings.length} mapping{mappings.length !== 1 ? 's' : ''} configured
+                                      </s-text>
+                                    );
+                                  }
+                                } catch {
+                                  return null;
+                                }
+                              })()}
+                              {rule.locationMappings && (() => {
+                                try {
+                                  const overrideCount = Object.keys(JSON.parse(rule.locationMappings)).length;
+                                  return overrideCount > 0 ? (
+                                    <s-text color="subdued">
+                                      {" "}
+                                      - Overridden at {overrideCount} location{overrideCount !== 1 ? 's' : ''}
+                                    </s-text>
+                                  ) : null;
+                                } catch {
+                                  return null;
+                                }
+                              })()}
+                              {!rule.deductionMappings && rule.type && (
+                                <s-text tone="subdued">
+                                  Legacy rule: {rule.type}
+                                </s-text>
+                              )}
+                              <s-text color="subdued">
+                                {" "}
+                                - {formatSchedule(rule)}
+                                {rule.inEffect ? " (in effect)" : ""}
+                              </s-text>
+                              {rule.oversellPolicy && (
+                                <s-text color="subdued">
+                                  {" "}
+                                  - When out of stock:{" "}
+                                  {OVERSELL_POLICY_LABELS[rule.oversellPolicy as OversellPolicy] || rule.oversellPolicy}
+                                </s-text>
+                              )}
+                            </div>
+                            {!isEditing && (
+                              <s-stack direction="inline" gap="base">
+                                <s-button
+                                  variant="secondary"
+                                  onClick={() => startEditing(variant.id, rule)}
+                                >
+                                  Edit
+                                </s-button>
                                 <s-button
                                   variant="tertiary"
-                                  onClick={() => handleDelete(variant.id)}
+                                  onClick={() => handleDelete(rule.id)}
                                 >
                                   Delete
                                 </s-button>
-                              )}
-                            </s-stack>
-                          )}
-                        </s-stack>
+                              </s-stack>
+                            )}
+                          </s-stack>
+                        ))}
 
                         {isEditing && (
                           <s-box
@@ -463,12 +1073,141 @@ export default function InventoryConfig() {
                             background="subdued"
                           >
                             <s-stack direction="block" gap="base">
+                              <s-stack direction="inline" gap="base">
+                                <s-date-field
+                                  label="Effective from"
+                                  value={effectiveFrom}
+                                  onChange={(e) => setEffectiveFrom(e.currentTarget.value)}
+                                />
+                                <s-date-field
+                                  label="Effective to"
+                                  value={effectiveTo}
+                                  onChange={(e) => setEffectiveTo(e.currentTarget.value)}
+                                />
+                              </s-stack>
+                              <s-text color="subdued">
+                                Leave both dates empty for the rule that applies by default. A scheduled rule replaces it from the start of its first day to the end of its last day (shop time zone), based on when each order is placed.
+                              </s-text>
+
+                              <s-select
+                                label="Rule type"
+                                value={ruleType}
+                                onChange={(e) =>
+                                  setRuleType(
+                                    e.currentTarget.value === "build_your_own" ? "build_your_own" : "mappings"
+                                  )
+                                }
+                              >
+                                <s-option value="mappings">Fixed components</s-option>
+                                <s-option value="build_your_own">Build-your-own box (customer picks)</s-option>
+                              </s-select>
+
+                              {ruleType === "build_your_own" && (
+                                <s-box padding="base" borderWidth="base" borderRadius="base">
+                                  <s-stack direction="block" gap="base">
+                                    <s-heading>Customer Picks</s-heading>
+                                    <s-text color="subdued">
+                                      Customers pick the contents of this box with the build-your-own box theme block. Each pick deducts from the picked variant; picks outside the allowed variants are ignored.
+                                    </s-text>
+                                    <s-text-field
+                                      label="Number of picks"
+                                      value={choiceCount.toString()}
+                                      onChange={(e) => {
+                                        const value = parseInt(e.currentTarget.value);
+                                        setChoiceCount(value > 0 ? value : 1);
+                                      }}
+                                    />
+                                    <s-text-field
+                                      label="Quantity per pick"
+                                      value={quantityPerChoice.toString()}
+                                      onChange={(e) => {
+                                        const value = parseFloat(e.currentTarget.value);
+                                        setQuantityPerChoice(value > 0 ? value : 1);
+                                      }}
+                                      details="Units deducted from the picked variant for each pick"
+                                    />
+                                    {choiceVariantIds.map((choiceVariantId) => {
+                                      return (
+                                        <s-stack key={choiceVariantId} direction="inline" gap="base">
+                                          <s-text>{getVariantLabel(choiceVariantId)}</s-text>
+                                          <s-button
+                                            variant="tertiary"
+                                            onClick={() =>
+                                              setChoiceVariantIds(choiceVariantIds.filter((id) => id !== choiceVariantId))
+                                            }
+                                          >
+                                            Remove
+                                          </s-button>
+                                        </s-stack>
+                                      );
+                                    })}
+                                    <VariantPicker
+                                      label="Add allowed variant"
+                                      excludeIds={[variant.id, ...choiceVariantIds]}
+                                      onSelect={(catalogVariant) => {
+                                        rememberVariant(catalogVariant);
+                                        setChoiceVariantIds([...choiceVariantIds, catalogVariant.id]);
+                                      }}
+                                    />
+                                  </s-stack>
+                                </s-box>
+                              )}
+
                               <s-heading>Deduction Mappings</s-heading>
                               <s-text tone="subdued">
-                                Configure which variants to deduct inventory from and how much when this variant is ordered.
+                                {ruleType === "build_your_own"
+                                  ? "Optionally deduct fixed components for every box (e.g. packaging) on top of the customer's picks."
+                                  : "Configure which variants to deduct inventory from and how much when this variant is ordered."}
                               </s-text>
 
-                              {deductionMappings.map((mapping, index) => (
+                              {locations.length > 1 && (
+                                <s-stack direction="inline" gap="base">
+                                  <s-button
+                                    variant={mappingLocationId === "" ? "primary" : "secondary"}
+                                    onClick={() => selectMappingLocation("")}
+                                  >
+                                    All locations
+                                  </s-button>
+                                  {locations.map((location) => (
+                                    <s-button
+                                      key={location.id}
+                                      variant={mappingLocationId === location.id ? "primary" : "secondary"}
+                                      onClick={() => selectMappingLocation(location.id)}
+                                    >
+                                      {location.name}
+                                      {locationMappings[location.id] ? " (overridden)" : ""}
+                                    </s-button>
+                                  ))}
+                                </s-stack>
+                              )}
+
+                              {mappingLocationId && (
+                                <s-stack direction="inline" gap="base">
+                                  <s-text color="subdued">
+                                    {locationMappings[mappingLocationId]
+                                      ? `Units fulfilled from ${getLocationName(mappingLocationId)} deduct the mappings below instead of those for all locations, and its bundle count is calculated from them.`
+                                      : `Units fulfilled from ${getLocationName(mappingLocationId)} deduct the mappings for all locations.`}
+                                  </s-text>
+                                  {locationMappings[mappingLocationId] ? (
+                                    <s-button
+                                      variant="tertiary"
+                                      tone="critical"
+                                      onClick={() => removeLocationOverride(mappingLocationId)}
+                                    >
+                                      Remove override
+                                    </s-button>
+                                  ) : (
+                                    <s-button
+                                      variant="secondary"
+                                      onClick={() => overrideLocation(mappingLocationId)}
+                                    >
+                                      Override at this location
+                                    </s-button>
+                                  )}
+                                </s-stack>
+                              )}
+
+                              {editedMappings.map((mapping, index) => (
                                 <s-box
                                   key={index}
                                   padding="base"
@@ -485,42 +1224,133 @@ export default function InventoryConfig() {
                                         Remove
                                       </s-button>
                                     </s-stack>
-                                    <s-select
-                                      label="Target Variant"
-                                      value={mapping.targetVariantId}
-                                      onChange={(e: any) =>
-                                        updateMapping(index, "targetVariantId", e.currentTarget.value)
-                                      }
-                                    >
-                                      <s-option value="">-- Select variant --</s-option>
-                                      {getSameProductVariants(variant.id).map((v) => (
-                                        <s-option key={v.id} value={v.id}>
-                                          {v.title || "Default"}
-                                          {v.sku && ` (${v.sku})`}
-                                        </s-option>
-                                      ))}
-                                    </s-select>
+                                    {mapping.targetVariantId && pickingMappingIndex !== index ? (
+                                      <s-stack direction="inline" gap="base">
+                                        <s-text>
+                                          Target variant: {mapping.targetVariantId === variant.id
+                                            ? `${variant.title || "Default"} (this variant)`
+                                            : getVariantLabel(mapping.targetVariantId)}
+                                        </s-text>
+                                        <s-button
+                                          variant="tertiary"
+                                          onClick={() => setPickingMappingIndex(index)}
+                                        >
+                                          Change
+                                        </s-button>
+                                      </s-stack>
+                                    ) : (
+                                      <s-stack direction="block" gap="base">
+                                        <VariantPicker
+                                          label="Target Variant"
+                                          excludeIds={[]}
+                                          onSelect={(catalogVariant) => {
+                                            rememberVariant(catalogVariant);
+                                            updateMapping(index, "targetVariantId", catalogVariant.id);
+                                            setPickingMappingIndex(null);
+                                          }}
+                                        />
+                                        <s-button
+                                          variant="tertiary"
+                                          onClick={() => {
+                                            updateMapping(index, "targetVariantId", variant.id);
+                                            setPickingMappingIndex(null);
+                                          }}
+                                        >
+                                          Deduct from this variant
+                                        </s-button>
+                                      </s-stack>
+                                    )}
                                     <s-text-field
                                       label="Multiplier"
                                       value={mapping.multiplier.toString()}
                                       onChange={(e: any) => {
-                                        const value = parseInt(e.currentTarget.value) || 1;
+                                        const value = parseFloat(e.currentTarget.value);
                                         updateMapping(
                                           index,
                                           "multiplier",
-                                          Math.max(1, value) // Ensure minimum of 1
+                                          value > 0 ? value : 1 // Decimals allowed, e.g. 0.25 of a bulk unit
                                         );
                                       }}
-                                      details="Enter how many units to deduct from the selected variant when 1 unit of this variant is ordered"
+                                      details="Enter how many units to deduct from the selected variant when 1 unit of this variant is ordered. Decimals are allowed (e.g. 0.25); fractions add up across orders until a whole unit is deducted"
                                     />
-                                    {mapping.targetVariantId && (() => {
-                                      const targetVariant = getSameProductVariants(variant.id).find(
-                                        (v) => v.id === mapping.targetVariantId
+                                    {componentUnits[mapping.targetVariantId] && (() => {
+                                      const unit = componentUnits[mapping.targetVariantId];
+                                      return (
+                                        <s-select
+                                          label="Unit"
+                                          value={mapping.unitSize ? "base" : "stocked"}
+                                          onChange={(e) =>
+                                            updateMappingUnit(
+                                              index,
+                                              e.currentTarget.value === "base" ? unit.unitSize : undefined
+                                            )
+                                          }
+                                          details={`Stocked in ${unit.unitName}s of ${unit.unitSize} ${unit.baseUnitName}. Opened ${unit.unitName}s are deducted from stock once used up.`}
+                                        >
+                                          <s-option value="stocked">{unit.unitName}</s-option>
+                                          <s-option value="base">{unit.baseUnitName}</s-option>
+                                        </s-select>
                                       );
-                                      const targetVariantName = targetVariant?.title || "selected variant";
+                                    })()}
+                                    {mapping.targetVariantId && mapping.targetVariantId !== variant.id && (() => {
+                                      const substitutes = mapping.substitutes || [];
+                                      return (
+                                        <s-stack direction="block" gap="base">
+                                          <s-heading>Substitutes</s-heading>
+                                          <s-text color="subdued">
+                                            When the target variant doesn&apos;t have enough stock at the fulfillment location, the first substitute below that does is deducted instead.
+                                          </s-text>
+                                          {substitutes.map((substituteId, substituteIndex) => (
+                                            <s-stack key={substituteId} direction="inline" gap="base">
+                                              <s-text>
+                                                {substituteIndex + 1}. {getVariantLabel(substituteId)}
+                                              </s-text>
+                                              {substituteIndex > 0 && (
+                                                <s-button
+                                                  variant="tertiary"
+                                                  onClick={() => {
+                                                    const reordered = [...substitutes];
+                                                    reordered.splice(substituteIndex, 1);
+                                                    reordered.splice(substituteIndex - 1, 0, substituteId);
+                                                    updateSubstitutes(index, reordered);
+                                                  }}
+                                                >
+                                                  Move up
+                                                </s-button>
+                                              )}
+                                              <s-button
+                                                variant="tertiary"
+                                                onClick={() =>
+                                                  updateSubstitutes(
+                                                    index,
+                                                    substitutes.filter((id) => id !== substituteId)
+                                                  )
+                                                }
+                                              >
+                                                Remove
+                                              </s-button>
+                                            </s-stack>
+                                          ))}
+                                          <VariantPicker
+                                            label="Add substitute"
+                                            excludeIds={[variant.id, mapping.targetVariantId, ...substitutes]}
+                                            onSelect={(catalogVariant) => {
+                                              rememberVariant(catalogVariant);
+                                              updateSubstitutes(index, [...substitutes, catalogVariant.id]);
+                                            }}
+                                          />
+                                        </s-stack>
+                                      );
+                                    })()}
+                                    {mapping.targetVariantId && (() => {
+                                      const targetVariantName = mapping.targetVariantId === variant.id
+                                        ? variant.title || "this variant"
+                                        : getVariantLabel(mapping.targetVariantId);
+                                      const unitName = getMappingUnitName(mapping);
                                       return (
                                         <s-text tone="subdued">
-                                          When 1 unit of {variant.title || "this variant"} is ordered, {mapping.multiplier} unit{mapping.multiplier !== 1 ? 's' : ''} will be deducted from {targetVariantName}.
+                                          When 1 unit of {variant.title || "this variant"} is ordered, {mapping.multiplier}{" "}
+                                          {unitName || `unit${mapping.multiplier !== 1 ? 's' : ''}`} will be deducted from {targetVariantName}.
                                         </s-text>
                                       );
                                     })()}
@@ -528,12 +1358,14 @@ export default function InventoryConfig() {
                                 </s-box>
                               ))}
 
-                              <s-button
-                                variant="secondary"
-                                onClick={addMapping}
-                              >
-                                Add Mapping
-                              </s-button>
+                              {(!mappingLocationId || locationMappings[mappingLocationId]) && (
+                                <s-button
+                                  variant="secondary"
+                                  onClick={addMapping}
+                                >
+                                  Add Mapping
+                                </s-button>
+                              )}
 
                               {/* Toggle: Only show if ALL mappings are to different variants (none point to itself) */}
                               {(() => {
@@ -541,7 +1373,7 @@ export default function InventoryConfig() {
                                   (mapping) => mapping.targetVariantId !== variant.id
                                 );
                                 
-                                return allMappingsToOtherVariants && deductionMappings.length > 0 ? (
+                                return allMappingsToOtherVariants && deductionMappings.length > 0 && ruleType !== "build_your_own" ? (
                                   <s-box
                                     padding="base"
                                     borderWidth="base"
@@ -567,6 +1399,19 @@ export default function InventoryConfig() {
                                 ) : null;
                               })()}
 
+                              <s-select
+                                label="When a component runs out"
+                                value={oversellPolicy}
+                                onChange={(e) => setOversellPolicy(e.currentTarget.value)}
+                              >
+                                <s-option value="">Use the shop&apos;s oversell policy (Settings)</s-option>
+                                {Object.entries(OVERSELL_POLICY_LABELS).map(([value, label]) => (
+                                  <s-option key={value} value={value}>
+                                    {label}
+                                  </s-option>
+                                ))}
+                              </s-select>
+
                               <s-stack direction="inline" gap="base">
                                 <s-button 
                                   variant="primary"
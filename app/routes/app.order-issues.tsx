@@ -0,0 +1,300 @@
+import { useState, useEffect } from "react";
+import type {
+  ActionFunctionArgs,
+  LoaderFunctionArgs,
+  HeadersFunction,
+} from "react-router";
+import { useLoaderData, useFetcher } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import type { OrderIssue, ProcessedOrder } from "@prisma/client";
+import { authenticate } from "../shopify.server";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { scheduleRecalculation } from "../utils/recalculation-queue.server";
+import {
+  getOpenOrderIssues,
+  getOrderIssue,
+  replayOrderIssue,
+  resolveOrderIssues,
+} from "../utils/order-issues.server";
+import { getProcessedOrders, undoOrderDeduction } from "../utils/order-processing.server";
+
+interface IssueRow {
+  id: string;
+  orderId: string;
+  source: string;
+  kind: string;
+  message: string;
+  attempts: number;
+  updatedAt: string;
+  orderStatus: string | null;
+  canReplay: boolean;
+  needsUndo: boolean;
+  canUndo: boolean;
+}
+
+interface LoaderData {
+  issues: IssueRow[];
+}
+
+const ISSUE_KIND_LABELS: Record<string, string> = {
+  failed: "Failed",
+  skipped: "Skipped line items",
+};
+
+/**
+ * Whether an issue's event deducts the order, rather than reversing part of it
+ */
+function isDeductionSource(source: string): boolean {
+  return source === "orders/create" || source === "orders/paid" || source.startsWith("fulfillments/create:");
+}
+
+/**
+ * A deduction that was applied, skipping some line items, is only deducted again
+ * by its replay once the order's deduction is undone
+ */
+function needsUndoBeforeReplay(issue: OrderIssue, processedOrder: ProcessedOrder | undefined): boolean {
+  return isDeductionSource(issue.source) && processedOrder?.status === "applied";
+}
+
+/**
+ * Get the numeric ID of an order from a numeric ID or GID
+ */
+function parseOrderId(value: string): string {
+  return value.trim().split("/").pop() || "";
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  if (!session) {
+    throw new Response("Unauthorized", { status: 401 });
+  }
+
+  const issues = await getOpenOrderIssues(session.shop);
+  const processedOrders = await getProcessedOrders(
+    session.shop,
+    issues.map((issue) => issue.orderId)
+  );
+
+  return {
+    issues: issues.map((issue) => {
+      const processedOrder = processedOrders.get(issue.orderId);
+      const needsUndo = needsUndoBeforeReplay(issue, processedOrder);
+
+      return {
+        id: issue.id,
+        orderId: issue.orderId,
+        source: issue.source,
+        kind: issue.kind,
+        message: issue.message,
+        attempts: issue.attempts,
+        updatedAt: issue.updatedAt.toISOString(),
+        orderStatus: processedOrder?.status || null,
+        canReplay: Boolean(issue.jobType && issue.payload) && !needsUndo,
+        needsUndo,
+        canUndo: Boolean(
+          processedOrder && processedOrder.status !== "reversed" && processedOrder.hasDeductionLedger
+        ),
+      };
+    }),
+  };
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  if (!session) {
+    throw new Response("Unauthorized", { status: 401 });
+  }
+
+  const formData = await request.formData();
+  const action = formData.get("action");
+
+  if (action === "replay" || action === "resolve") {
+    const issue = await getOrderIssue(session.shop, (formData.get("issueId") as string) || "");
+
+    if (!issue) {
+      return { error: "Issue not found" };
+    }
+
+    if (action === "resolve") {
+      await resolveOrderIssues(session.shop, issue.orderId, "resolved", issue.source);
+      return { success: true, message: `Marked order ${issue.orderId} as resolved` };
+    }
+
+    const processedOrder = (await getProcessedOrders(session.shop, [issue.orderId])).get(issue.orderId);
+    if (needsUndoBeforeReplay(issue, processedOrder)) {
+      return { error: `Undo the deduction of order ${issue.orderId} before replaying it` };
+    }
+
+    if (!(await replayOrderIssue(issue))) {
+      return { error: `${issue.source} of order ${issue.orderId} can't be replayed` };
+    }
+
+    return {
+      success: true,
+      message: `Queued ${issue.source} of order ${issue.orderId} to run again`,
+    };
+  }
+
+  if (action === "undo") {
+    const orderId = parseOrderId((formData.get("orderId") as string) || "");
+
+    if (!/^\d+$/.test(orderId)) {
+      return { error: "Enter a numeric order ID or order GID" };
+    }
+
+    const { error } = await undoOrderDeduction(admin, session.shop, orderId);
+    if (error) {
+      return { error };
+    }
+
+    // Recalculate multipack inventory after returning the components
+    try {
+      await scheduleRecalculation(session.shop);
+    } catch (scheduleError) {
+      console.error(`Error scheduling multipack inventory recalculation after undoing order ${orderId}: ${scheduleError}`);
+    }
+
+    return { success: true, message: `Undid the deduction of order ${orderId}` };
+  }
+
+  return { error: "Invalid action" };
+};
+
+export default function OrderIssues() {
+  const { issues } = useLoaderData<LoaderData>();
+  const fetcher = useFetcher<typeof action>();
+  const shopify = useAppBridge();
+  const [undoOrderId, setUndoOrderId] = useState("");
+
+  useEffect(() => {
+    if (fetcher.data?.message) {
+      shopify.toast.show(fetcher.data.message);
+    } else if (fetcher.data?.error) {
+      shopify.toast.show(fetcher.data.error, { isError: true });
+    }
+  }, [fetcher.data, shopify]);
+
+  const submit = (fields: Record<string, string>) => {
+    const formData = new FormData();
+    for (const [key, value] of Object.entries(fields)) {
+      formData.append(key, value);
+    }
+    fetcher.submit(formData, { method: "POST" });
+  };
+
+  const handleUndo = (orderId: string) => {
+    if (confirm(`Return every component deducted for order ${orderId} to stock?`)) {
+      submit({ action: "undo", orderId });
+    }
+  };
+
+  const isSubmitting = fetcher.state === "submitting";
+
+  return (
+    <s-page heading="Order issues">
+      <s-section heading="Orders that need attention">
+        <s-paragraph>
+          Orders whose deduction or reversal failed, or that skipped line items (e.g. without a
+          fulfillment location or inventory item), are listed here with the error. Replaying runs
+          the order event again once the cause is fixed; an issue is resolved automatically when
+          its event succeeds. Failed events are retried automatically for a while before they
+          stay here.
+        </s-paragraph>
+
+        {issues.length === 0 ? (
+          <s-text>No open issues.</s-text>
+        ) : (
+          <s-stack direction="block" gap="base">
+            {issues.map((issue) => (
+              <s-box key={issue.id} padding="base" borderWidth="base" borderRadius="base">
+                <s-stack direction="block" gap="base">
+                  <s-stack direction="inline" gap="base">
+                    <s-link href={`shopify://admin/orders/${issue.orderId}`} target="_blank">
+                      Order {issue.orderId}
+                    </s-link>
+                    <s-text>{ISSUE_KIND_LABELS[issue.kind] || issue.kind}</s-text>
+                    <s-text color="subdued">
+                      {issue.source}, {issue.attempts} time{issue.attempts === 1 ? "" : "s"}, last on{" "}
+                      {new Date(issue.updatedAt).toLocaleString()}
+                    </s-text>
+                  </s-stack>
+
+                  {issue.message.split("\n").map((line, index) => (
+                    <s-text key={index}>{line}</s-text>
+                  ))}
+
+                  <s-text color="subdued">
+                    Deduction: {issue.orderStatus || "none recorded"}
+                  </s-text>
+
+                  {issue.needsUndo && (
+                    <s-text color="subdued">
+                      The order was deducted without these line items. Undo its deduction before
+                      replaying it, so it is deducted again in full.
+                    </s-text>
+                  )}
+
+                  <s-stack direction="inline" gap="base">
+                    <s-button
+                      onClick={() => submit({ action: "replay", issueId: issue.id })}
+                      disabled={!issue.canReplay || isSubmitting}
+                    >
+                      Replay
+                    </s-button>
+                    <s-button
+                      onClick={() => submit({ action: "resolve", issueId: issue.id })}
+                      disabled={isSubmitting}
+                    >
+                      Mark as resolved
+                    </s-button>
+                    {issue.canUndo && (
+                      <s-button
+                        tone="critical"
+                        onClick={() => handleUndo(issue.orderId)}
+                        disabled={isSubmitting}
+                      >
+                        Undo deduction
+                      </s-button>
+                    )}
+                  </s-stack>
+                </s-stack>
+              </s-box>
+            ))}
+          </s-stack>
+        )}
+      </s-section>
+
+      <s-section heading="Undo an order's deduction">
+        <s-paragraph>
+          Returns every component deducted for an order to stock and forgets the order, so
+          replaying one of its events deducts it from scratch. Orders deducted before the
+          deduction ledger existed cannot be undone.
+        </s-paragraph>
+
+        <s-stack direction="block" gap="base">
+          <s-text-field
+            label="Order ID"
+            placeholder="5551234567890 or gid://shopify/Order/5551234567890"
+            value={undoOrderId}
+            onInput={(e) => setUndoOrderId(e.currentTarget.value)}
+          />
+          <s-stack direction="inline" gap="base">
+            <s-button
+              tone="critical"
+              onClick={() => handleUndo(parseOrderId(undoOrderId))}
+              disabled={!undoOrderId.trim() || isSubmitting}
+            >
+              Undo deduction
+            </s-button>
+          </s-stack>
+        </s-stack>
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -0,0 +1,51 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import {
+  diffRuleSnapshots,
+  getRuleHistory,
+  parseRuleSnapshot,
+} from "../utils/rule-history.server";
+import type { RuleSnapshot } from "../utils/rule-history.server";
+import { formatDateInTimeZone, getShopTimeZone } from "../utils/rule-schedule.server";
+
+/**
+ * Resource route backing the rule history panel in the inventory configuration editor.
+ * Returns the changes made to the rules of `variantId`, newest first, with their diffs.
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  if (!session) {
+    throw new Response("Unauthorized", { status: 401 });
+  }
+
+  const variantId = new URL(request.url).searchParams.get("variantId") || "";
+  const versions = await getRuleHistory(session.shop, variantId);
+  const timeZone = await getShopTimeZone(admin);
+
+  // Show windows as the calendar days they cover in the shop's time zone, like the editor
+  const withLocalDates = (snapshot: RuleSnapshot | null): RuleSnapshot | null =>
+    snapshot && {
+      ...snapshot,
+      effectiveFrom: snapshot.effectiveFrom
+        ? formatDateInTimeZone(new Date(snapshot.effectiveFrom), timeZone)
+        : null,
+      effectiveTo: snapshot.effectiveTo
+        ? formatDateInTimeZone(new Date(new Date(snapshot.effectiveTo).getTime() - 1), timeZone)
+        : null,
+    };
+
+  return {
+    variantId,
+    versions: versions.map((version) => ({
+      id: version.id,
+      action: version.action,
+      changedBy: version.changedBy,
+      createdAt: version.createdAt.toISOString(),
+      changes: diffRuleSnapshots(
+        withLocalDates(parseRuleSnapshot(version.before)),
+        withLocalDates(parseRuleSnapshot(version.after))
+      ),
+    })),
+  };
+};
@@ -0,0 +1,557 @@
+import { useState, useEffect } from "react";
+import type {
+  ActionFunctionArgs,
+  LoaderFunctionArgs,
+  HeadersFunction,
+} from "react-router";
+import { useLoaderData, useFetcher } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { getAllActiveLocations } from "../utils/inventory-calculation.server";
+import type { Location } from "../utils/inventory-calculation.server";
+import {
+  getShopSettings,
+  isDeductionTrigger,
+  isOversellPolicy,
+  saveDeductionTrigger,
+  saveLocationPriority,
+  saveOversellPolicy,
+} from "../utils/shop-settings.server";
+import type { DeductionTrigger, OversellPolicy } from "../utils/shop-settings.server";
+import {
+  countRulesUsingBaseUnits,
+  deleteComponentUnit,
+  getComponentUnits,
+  saveComponentUnit,
+} from "../utils/component-units.server";
+import { getInventoryItemId } from "../utils/order-deductions.server";
+import { getVariantsById } from "../utils/variant-catalog.server";
+import { formatVariantLabel, VariantPicker } from "../components/VariantPicker";
+
+interface ComponentUnitRow {
+  variantId: string;
+  label: string;
+  unitName: string;
+  baseUnitName: string;
+  unitSize: number;
+}
+
+interface LoaderData {
+  locations: Location[];
+  locationPriority: string[];
+  deductionTrigger: DeductionTrigger;
+  oversellPolicy: OversellPolicy;
+  componentUnits: ComponentUnitRow[];
+}
+
+const DEDUCTION_TRIGGER_OPTIONS: Array<{ value: DeductionTrigger; label: string }> = [
+  { value: "orders/create", label: "When the order is created" },
+  { value: "orders/paid", label: "When the order is paid" },
+  { value: "fulfillments/create", label: "When the order is fulfilled" },
+];
+
+const OVERSELL_POLICY_OPTIONS: Array<{ value: OversellPolicy; label: string }> = [
+  { value: "allow_negative", label: "Deduct in full and let stock go negative" },
+  { value: "clamp", label: "Stop at zero and record the shortfall" },
+  { value: "clamp_and_alert", label: "Stop at zero, record the shortfall and tag the order" },
+];
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  if (!session) {
+    throw new Response("Unauthorized", { status: 401 });
+  }
+
+  const [locations, settings, componentUnits] = await Promise.all([
+    getAllActiveLocations(admin),
+    getShopSettings(session.shop),
+    getComponentUnits(session.shop),
+  ]);
+
+  const variants = new Map(
+    (await getVariantsById(admin, componentUnits.map((unit) => unit.variantId))).map((variant) => [
+      variant.id,
+      variant,
+    ])
+  );
+
+  return {
+    locations,
+    locationPriority: settings.locationPriority,
+    deductionTrigger: settings.deductionTrigger,
+    oversellPolicy: settings.oversellPolicy,
+    componentUnits: componentUnits.map((unit) => {
+      const variant = variants.get(unit.variantId);
+      return {
+        variantId: unit.variantId,
+        label: variant ? formatVariantLabel(variant) : `${unit.variantId} (deleted)`,
+        unitName: unit.unitName,
+        baseUnitName: unit.baseUnitName,
+        unitSize: unit.unitSize,
+      };
+    }),
+  };
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  if (!session) {
+    throw new Response("Unauthorized", { status: 401 });
+  }
+
+  const formData = await request.formData();
+  const action = formData.get("action");
+
+  if (action === "saveLocationPriority") {
+    const locationPriorityJson = formData.get("locationPriority") as string;
+
+    let locationPriority: string[];
+    try {
+      locationPriority = JSON.parse(locationPriorityJson || "[]");
+      if (!Array.isArray(locationPriority) || locationPriority.some((id) => typeof id !== "string")) {
+        return { error: "Invalid location priority format" };
+      }
+    } catch (error) {
+      return { error: "Invalid location priority format" };
+    }
+
+    const activeLocationIds = new Set(
+      (await getAllActiveLocations(admin)).map((location) => location.id)
+    );
+    if (locationPriority.some((id) => !activeLocationIds.has(id))) {
+      return { error: "Location priority can only contain active locations" };
+    }
+
+    await saveLocationPriority(session.shop, Array.from(new Set(locationPriority)));
+
+    return { success: true };
+  }
+
+  if (action === "saveDeductionTrigger") {
+    const deductionTrigger = formData.get("deductionTrigger");
+
+    if (!isDeductionTrigger(deductionTrigger)) {
+      return { error: "Invalid deduction trigger" };
+    }
+
+    await saveDeductionTrigger(session.shop, deductionTrigger);
+
+    return { success: true };
+  }
+
+  if (action === "saveOversellPolicy") {
+    const oversellPolicy = formData.get("oversellPolicy");
+
+    if (!isOversellPolicy(oversellPolicy)) {
+      return { error: "Invalid oversell policy" };
+    }
+
+    await saveOversellPolicy(session.shop, oversellPolicy);
+
+    return { success: true };
+  }
+
+  if (action === "saveComponentUnit") {
+    const variantId = (formData.get("variantId") as string) || "";
+    const unitName = ((formData.get("unitName") as string) || "").trim();
+    const baseUnitName = ((formData.get("baseUnitName") as string) || "").trim();
+    const unitSize = Number(formData.get("unitSize"));
+
+    if (!unitName || !baseUnitName) {
+      return { error: "Enter the names of the unit and its base unit" };
+    }
+    if (!Number.isInteger(unitSize) || unitSize < 2) {
+      return { error: "A unit must hold a whole number of at least 2 base units" };
+    }
+
+    const [variant] = await getVariantsById(admin, [variantId]);
+    if (!variant) {
+      return { error: "Variant not found" };
+    }
+    if (!variant.tracked) {
+      return { error: `Inventory is not tracked for ${formatVariantLabel(variant)}` };
+    }
+
+    const rulesUsingBaseUnits = await countRulesUsingBaseUnits(session.shop, variantId, unitSize);
+    if (rulesUsingBaseUnits > 0) {
+      return {
+        error: `${rulesUsingBaseUnits} rule(s) deduct ${formatVariantLabel(variant)} in base units. Change them before its unit size.`,
+      };
+    }
+
+    const inventoryItemId = await getInventoryItemId(admin, variantId);
+    if (!inventoryItemId) {
+      return { error: `No inventory item found for ${formatVariantLabel(variant)}` };
+    }
+
+    await saveComponentUnit(session.shop, { variantId, inventoryItemId, unitName, baseUnitName, unitSize });
+
+    return { success: true };
+  }
+
+  if (action === "deleteComponentUnit") {
+    const variantId = (formData.get("variantId") as string) || "";
+
+    const rulesUsingBaseUnits = await countRulesUsingBaseUnits(session.shop, variantId);
+    if (rulesUsingBaseUnits > 0) {
+      return {
+        error: `${rulesUsingBaseUnits} rule(s) deduct this component in base units. Change them before removing its unit.`,
+      };
+    }
+
+    await deleteComponentUnit(session.shop, variantId);
+
+    return { success: true };
+  }
+
+  return { error: "Invalid action" };
+};
+
+export default function Settings() {
+  const {
+    locations,
+    locationPriority: savedLocationPriority,
+    deductionTrigger: savedDeductionTrigger,
+    oversellPolicy: savedOversellPolicy,
+    componentUnits,
+  } = useLoaderData<LoaderData>();
+  const fetcher = useFetcher<typeof action>();
+  const shopify = useAppBridge();
+  const [locationPriority, setLocationPriority] = useState<string[]>(savedLocationPriority);
+  const [deductionTrigger, setDeductionTrigger] = useState<DeductionTrigger>(savedDeductionTrigger);
+  const [oversellPolicy, setOversellPolicy] = useState<OversellPolicy>(savedOversellPolicy);
+  const [unitVariant, setUnitVariant] = useState<{ id: string; label: string } | null>(null);
+  const [unitName, setUnitName] = useState("case");
+  const [baseUnitName, setBaseUnitName] = useState("each");
+  const [unitSize, setUnitSize] = useState("12");
+
+  useEffect(() => {
+    if (fetcher.data && "success" in fetcher.data) {
+      shopify.toast.show("Settings saved successfully");
+    } else if (fetcher.data && "error" in fetcher.data) {
+      shopify.toast.show(fetcher.data.error, { isError: true });
+    }
+  }, [fetcher.data, shopify]);
+
+  const getLocationName = (locationId: string) =>
+    locations.find((location) => location.id === locationId)?.name || locationId;
+
+  const unprioritizedLocations = locations.filter(
+    (location) => !locationPriority.includes(location.id)
+  );
+
+  const moveLocation = (index: number, offset: number) => {
+    const updated = [...locationPriority];
+    const [moved] = updated.splice(index, 1);
+    updated.splice(index + offset, 0, moved);
+    setLocationPriority(updated);
+  };
+
+  const handleSaveLocationPriority = () => {
+    const formData = new FormData();
+    formData.append("action", "saveLocationPriority");
+    formData.append("locationPriority", JSON.stringify(locationPriority));
+    fetcher.submit(formData, { method: "POST" });
+  };
+
+  const handleSaveDeductionTrigger = () => {
+    const formData = new FormData();
+    formData.append("action", "saveDeductionTrigger");
+    formData.append("deductionTrigger", deductionTrigger);
+    fetcher.submit(formData, { method: "POST" });
+  };
+
+  const handleSaveOversellPolicy = () => {
+    const formData = new FormData();
+    formData.append("action", "saveOversellPolicy");
+    formData.append("oversellPolicy", oversellPolicy);
+    fetcher.submit(formData, { method: "POST" });
+  };
+
+  const handleSaveComponentUnit = () => {
+    if (!unitVariant) {
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append("action", "saveComponentUnit");
+    formData.append("variantId", unitVariant.id);
+    formData.append("unitName", unitName);
+    formData.append("baseUnitName", baseUnitName);
+    formData.append("unitSize", unitSize);
+    fetcher.submit(formData, { method: "POST" });
+    setUnitVariant(null);
+  };
+
+  const handleDeleteComponentUnit = (variantId: string) => {
+    const formData = new FormData();
+    formData.append("action", "deleteComponentUnit");
+    formData.append("variantId", variantId);
+    fetcher.submit(formData, { method: "POST" });
+  };
+
+  return (
+    <s-page heading="Settings">
+      <s-section heading="Deduction trigger">
+        <s-paragraph>
+          Choose when component inventory is deducted for an order. Deduct on creation for cash
+          on delivery or payment terms orders, or on fulfillment for pre-orders. When fulfilled,
+          each fulfillment deducts the units it ships. Orders that were already deducted are
+          never deducted again after changing this setting.
+        </s-paragraph>
+
+        <s-stack direction="block" gap="base">
+          <s-select
+            label="Deduct component inventory"
+            value={deductionTrigger}
+            onChange={(e) => {
+              const value = e.currentTarget.value;
+              const option = DEDUCTION_TRIGGER_OPTIONS.find((trigger) => trigger.value === value);
+              if (option) {
+                setDeductionTrigger(option.value);
+              }
+            }}
+          >
+            {DEDUCTION_TRIGGER_OPTIONS.map((option) => (
+              <s-option key={option.value} value={option.value}>
+                {option.label}
+              </s-option>
+            ))}
+          </s-select>
+
+          <s-stack direction="inline" gap="base">
+            <s-button
+              variant="primary"
+              onClick={handleSaveDeductionTrigger}
+              loading={fetcher.state === "submitting"}
+            >
+              Save
+            </s-button>
+          </s-stack>
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Oversell policy">
+        <s-paragraph>
+          Choose what happens when an order needs more of a component than is in stock. Every
+          shortfall is recorded and listed on the Shortfalls page, whatever the policy. Tagged
+          orders get the &quot;oversold&quot; tag. Rules can override this policy for their variant.
+        </s-paragraph>
+
+        <s-stack direction="block" gap="base">
+          <s-select
+            label="When a component runs out"
+            value={oversellPolicy}
+            onChange={(e) => {
+              const value = e.currentTarget.value;
+              const option = OVERSELL_POLICY_OPTIONS.find((policy) => policy.value === value);
+              if (option) {
+                setOversellPolicy(option.value);
+              }
+            }}
+          >
+            {OVERSELL_POLICY_OPTIONS.map((option) => (
+              <s-option key={option.value} value={option.value}>
+                {option.label}
+              </s-option>
+            ))}
+          </s-select>
+
+          <s-stack direction="inline" gap="base">
+            <s-button
+              variant="primary"
+              onClick={handleSaveOversellPolicy}
+              loading={fetcher.state === "submitting"}
+            >
+              Save
+            </s-button>
+          </s-stack>
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Component units">
+        <s-paragraph>
+          Define the unit a component is stocked in when bundles use part of it, e.g. cases of
+          12 each. Rules can then deduct the component in its base unit: an opened case is kept
+          as a remainder and deducted from stock once it is used up, and bundle availability
+          counts the base units left in opened cases. Redefining a unit keeps the rules that
+          deduct in base units only when its size stays the same.
+        </s-paragraph>
+
+        <s-stack direction="block" gap="base">
+          {componentUnits.length === 0 && <s-text>No component units defined.</s-text>}
+
+          {componentUnits.map((unit) => (
+            <s-box key={unit.variantId} padding="base" borderWidth="base" borderRadius="base">
+              <s-stack direction="inline" gap="base">
+                <s-text>{unit.label}</s-text>
+                <s-text color="subdued">
+                  1 {unit.unitName} = {unit.unitSize} {unit.baseUnitName}
+                </s-text>
+                <s-button
+                  variant="tertiary"
+                  onClick={() => {
+                    setUnitVariant({ id: unit.variantId, label: unit.label });
+                    setUnitName(unit.unitName);
+                    setBaseUnitName(unit.baseUnitName);
+                    setUnitSize(String(unit.unitSize));
+                  }}
+                >
+                  Edit
+                </s-button>
+                <s-button
+                  variant="tertiary"
+                  tone="critical"
+                  onClick={() => handleDeleteComponentUnit(unit.variantId)}
+                  disabled={fetcher.state === "submitting"}
+                >
+                  Remove
+                </s-button>
+              </s-stack>
+            </s-box>
+          ))}
+
+          {unitVariant ? (
+            <s-stack direction="block" gap="base">
+              <s-stack direction="inline" gap="base">
+                <s-text>{unitVariant.label}</s-text>
+                <s-button variant="tertiary" onClick={() => setUnitVariant(null)}>
+                  Change
+                </s-button>
+              </s-stack>
+              <s-stack direction="inline" gap="base">
+                <s-text-field
+                  label="Stocked unit"
+                  placeholder="case"
+                  value={unitName}
+                  onInput={(e) => setUnitName(e.currentTarget.value)}
+                />
+                <s-number-field
+                  label="Base units per stocked unit"
+                  value={unitSize}
+                  min={2}
+                  step={1}
+                  onInput={(e) => setUnitSize(e.currentTarget.value)}
+                />
+                <s-text-field
+                  label="Base unit"
+                  placeholder="each"
+                  value={baseUnitName}
+                  onInput={(e) => setBaseUnitName(e.currentTarget.value)}
+                />
+              </s-stack>
+              <s-stack direction="inline" gap="base">
+                <s-button
+                  variant="primary"
+                  onClick={handleSaveComponentUnit}
+                  loading={fetcher.state === "submitting"}
+                  disabled={!unitName.trim() || !baseUnitName.trim()}
+                >
+                  Save unit
+                </s-button>
+              </s-stack>
+            </s-stack>
+          ) : (
+            <VariantPicker
+              label="Component"
+              excludeIds={[]}
+              onSelect={(variant) => {
+                const existing = componentUnits.find((unit) => unit.variantId === variant.id);
+                setUnitVariant({ id: variant.id, label: formatVariantLabel(variant) });
+                if (existing) {
+                  setUnitName(existing.unitName);
+                  setBaseUnitName(existing.baseUnitName);
+                  setUnitSize(String(existing.unitSize));
+                }
+              }}
+            />
+          )}
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Fallback location priority">
+        <s-paragraph>
+          Order deductions are applied at the location of the fulfillment order holding each
+          line item. When a line item has no fulfillment location yet (for example, scheduled
+          subscription orders), the first active location in this list is used instead.
+          With an empty list, the shop&apos;s first active location is used.
+        </s-paragraph>
+
+        <s-stack direction="block" gap="base">
+          {locationPriority.length === 0 && (
+            <s-text>No locations prioritized.</s-text>
+          )}
+
+          {locationPriority.map((locationId, index) => (
+            <s-box key={locationId} padding="base" borderWidth="base" borderRadius="base">
+              <s-stack direction="inline" gap="base">
+                <s-text>
+                  {index + 1}. {getLocationName(locationId)}
+                </s-text>
+                <s-button
+                  variant="tertiary"
+                  disabled={index === 0}
+                  onClick={() => moveLocation(index, -1)}
+                >
+                  Move up
+                </s-button>
+                <s-button
+                  variant="tertiary"
+                  disabled={index === locationPriority.length - 1}
+                  onClick={() => moveLocation(index, 1)}
+                >
+                  Move down
+                </s-button>
+                <s-button
+                  variant="tertiary"
+                  onClick={() =>
+                    setLocationPriority(locationPriority.filter((id) => id !== locationId))
+                  }
+                >
+                  Remove
+                </s-button>
+              </s-stack>
+            </s-box>
+          ))}
+
+          {unprioritizedLocations.length > 0 && (
+            <s-select
+              label="Add location"
+              value=""
+              onChange={(e) => {
+                const value = e.currentTarget.value;
+                if (value) {
+                  setLocationPriority([...locationPriority, value]);
+                }
+              }}
+            >
+              <s-option value="">-- Select a location --</s-option>
+              {unprioritizedLocations.map((location) => (
+                <s-option key={location.id} value={location.id}>
+                  {location.name}
+                </s-option>
+              ))}
+            </s-select>
+          )}
+
+          <s-stack direction="inline" gap="base">
+            <s-button
+              variant="primary"
+              onClick={handleSaveLocationPriority}
+              loading={fetcher.state === "submitting"}
+            >
+              Save
+            </s-button>
+          </s-stack>
+        </s-stack>
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
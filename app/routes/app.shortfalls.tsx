@@ -0,0 +1,139 @@
+import type { LoaderFunctionArgs, HeadersFunction } from "react-router";
+import { useLoaderData } from "react-router";
+import { authenticate } from "../shopify.server";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { getAllActiveLocations } from "../utils/inventory-calculation.server";
+import { getRecentShortfalls } from "../utils/oversell.server";
+import { getVariantsById, getVariantsByInventoryItemId } from "../utils/variant-catalog.server";
+import { formatVariantLabel } from "../components/VariantPicker";
+
+interface ShortfallRow {
+  id: string;
+  lineItemId: string;
+  orderedVariant: string;
+  component: string;
+  location: string;
+  requested: number;
+  shortfall: number;
+  policy: string;
+}
+
+interface OrderShortfalls {
+  orderId: string;
+  source: string;
+  createdAt: string;
+  rows: ShortfallRow[];
+}
+
+interface LoaderData {
+  orders: OrderShortfalls[];
+}
+
+const OVERSELL_POLICY_LABELS: Record<string, string> = {
+  allow_negative: "Went negative",
+  clamp: "Stopped at zero",
+  clamp_and_alert: "Stopped at zero, order tagged",
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  if (!session) {
+    throw new Response("Unauthorized", { status: 401 });
+  }
+
+  const shortfalls = await getRecentShortfalls(session.shop);
+  const [orderedVariants, components, locations] = await Promise.all([
+    getVariantsById(admin, shortfalls.map((shortfall) => shortfall.variantId)),
+    getVariantsByInventoryItemId(admin, shortfalls.map((shortfall) => shortfall.inventoryItemId)),
+    getAllActiveLocations(admin),
+  ]);
+
+  const variantLabels = new Map(
+    orderedVariants.map((variant) => [variant.id, formatVariantLabel(variant)])
+  );
+  const locationNames = new Map(locations.map((location) => [location.id, location.name]));
+
+  // Group the shortfalls of each order event, keeping the newest first
+  const orders: OrderShortfalls[] = [];
+  for (const shortfall of shortfalls) {
+    const createdAt = shortfall.createdAt.toISOString();
+    let order = orders.find(
+      (existing) =>
+        existing.orderId === shortfall.orderId &&
+        existing.source === shortfall.source &&
+        existing.createdAt === createdAt
+    );
+    if (!order) {
+      order = { orderId: shortfall.orderId, source: shortfall.source, createdAt, rows: [] };
+      orders.push(order);
+    }
+
+    const component = components.get(shortfall.inventoryItemId);
+    order.rows.push({
+      id: shortfall.id,
+      lineItemId: shortfall.lineItemId,
+      orderedVariant: variantLabels.get(shortfall.variantId) || shortfall.variantId,
+      component: component ? formatVariantLabel(component) : shortfall.inventoryItemId,
+      location: locationNames.get(shortfall.locationId) || shortfall.locationId,
+      requested: shortfall.requested,
+      shortfall: shortfall.shortfall,
+      policy: shortfall.policy,
+    });
+  }
+
+  return { orders };
+};
+
+export default function Shortfalls() {
+  const { orders } = useLoaderData<LoaderData>();
+
+  return (
+    <s-page heading="Shortfalls">
+      <s-section heading="Orders that needed more stock than was available">
+        <s-paragraph>
+          Each time an order deducts more of a component than is in stock, the missing units are
+          recorded here with the oversell policy that was applied. The most recent 200 shortfalls
+          are shown.
+        </s-paragraph>
+
+        {orders.length === 0 ? (
+          <s-text>No shortfalls recorded.</s-text>
+        ) : (
+          <s-stack direction="block" gap="base">
+            {orders.map((order) => (
+              <s-box
+                key={`${order.orderId}:${order.source}:${order.createdAt}`}
+                padding="base"
+                borderWidth="base"
+                borderRadius="base"
+              >
+                <s-stack direction="block" gap="base">
+                  <s-stack direction="inline" gap="base">
+                    <s-link href={`shopify://admin/orders/${order.orderId}`} target="_blank">
+                      Order {order.orderId}
+                    </s-link>
+                    <s-text color="subdued">
+                      {order.source} on {new Date(order.createdAt).toLocaleString()}
+                    </s-text>
+                  </s-stack>
+
+                  {order.rows.map((row) => (
+                    <s-text key={row.id}>
+                      {row.orderedVariant}: short {row.shortfall} of {row.requested} × {row.component} at{" "}
+                      {row.location} ({OVERSELL_POLICY_LABELS[row.policy] || row.policy})
+                    </s-text>
+                  ))}
+                </s-stack>
+              </s-box>
+            ))}
+          </s-stack>
+        )}
+      </s-section>
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -0,0 +1,313 @@
+import { useState, useEffect } from "react";
+import type {
+  ActionFunctionArgs,
+  LoaderFunctionArgs,
+  HeadersFunction,
+} from "react-router";
+import { useLoaderData, useFetcher } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+import { authenticate } from "../shopify.server";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { getAllActiveLocations } from "../utils/inventory-calculation.server";
+import type { Location } from "../utils/inventory-calculation.server";
+import { simulateOrderDeductions } from "../utils/deduction-simulator.server";
+import type { SimulatedCartItem } from "../utils/deduction-simulator.server";
+import { getShopTimeZone, getStartOfDay } from "../utils/rule-schedule.server";
+import { formatVariantLabel, VariantPicker } from "../components/VariantPicker";
+
+interface LoaderData {
+  locations: Location[];
+}
+
+interface CartLine {
+  variantId: string;
+  label: string;
+  quantity: number;
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  if (!session) {
+    throw new Response("Unauthorized", { status: 401 });
+  }
+
+  return {
+    locations: await getAllActiveLocations(admin),
+  };
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  if (!session) {
+    throw new Response("Unauthorized", { status: 401 });
+  }
+
+  const formData = await request.formData();
+  const mode = formData.get("mode");
+
+  if (mode === "order") {
+    const orderId = ((formData.get("orderId") as string) || "").trim();
+
+    if (!orderId) {
+      return { error: "Order ID is required" };
+    }
+
+    const result = await simulateOrderDeductions(admin, session.shop, { orderId });
+    return "error" in result ? { error: result.error } : { result };
+  }
+
+  if (mode === "cart") {
+    let cart: SimulatedCartItem[];
+    try {
+      cart = JSON.parse((formData.get("cart") as string) || "[]");
+      if (
+        !Array.isArray(cart) ||
+        cart.length === 0 ||
+        cart.some((item) => !item.variantId || !Number.isInteger(item.quantity) || item.quantity <= 0)
+      ) {
+        return { error: "Add at least one variant with a quantity of 1 or more" };
+      }
+    } catch (error) {
+      return { error: "Invalid cart format" };
+    }
+
+    // Rules are picked at the start of the chosen day in the shop's time zone
+    const date = (formData.get("date") as string) || "";
+    const at = date ? getStartOfDay(date, await getShopTimeZone(admin)) : new Date();
+    if (!at) {
+      return { error: "Invalid date" };
+    }
+
+    const result = await simulateOrderDeductions(admin, session.shop, {
+      cart,
+      locationId: (formData.get("locationId") as string) || null,
+      at,
+    });
+    return "error" in result ? { error: result.error } : { result };
+  }
+
+  return { error: "Invalid action" };
+};
+
+export default function Simulator() {
+  const { locations } = useLoaderData<LoaderData>();
+  const fetcher = useFetcher<typeof action>();
+  const shopify = useAppBridge();
+  const [mode, setMode] = useState<"order" | "cart">("order");
+  const [orderId, setOrderId] = useState("");
+  const [cart, setCart] = useState<CartLine[]>([]);
+  const [locationId, setLocationId] = useState("");
+  const [date, setDate] = useState("");
+
+  useEffect(() => {
+    if (fetcher.data?.error) {
+      shopify.toast.show(fetcher.data.error, { isError: true });
+    }
+  }, [fetcher.data, shopify]);
+
+  const result = fetcher.data?.result || null;
+
+  const getLocationName = (id: string) =>
+    locations.find((location) => location.id === id)?.name || id;
+
+  const getVariantName = (variantId: string) =>
+    cart.find((line) => line.variantId === variantId)?.label ||
+    result?.adjustments.find((adjustment) => adjustment.variantId === variantId)?.variantName ||
+    variantId;
+
+  const updateQuantity = (index: number, quantity: number) => {
+    const updated = [...cart];
+    updated[index] = { ...updated[index], quantity };
+    setCart(updated);
+  };
+
+  const handleSimulate = () => {
+    const formData = new FormData();
+    formData.append("mode", mode);
+    if (mode === "order") {
+      formData.append("orderId", orderId);
+    } else {
+      formData.append(
+        "cart",
+        JSON.stringify(cart.map((line) => ({ variantId: line.variantId, quantity: line.quantity })))
+      );
+      formData.append("locationId", locationId);
+      formData.append("date", date);
+    }
+    fetcher.submit(formData, { method: "POST" });
+  };
+
+  return (
+    <s-page heading="Deduction Simulator">
+      <s-section heading="Simulate an order">
+        <s-paragraph>
+          See the inventory adjustments the order paid handler would make for an existing order
+          or a cart you build here, with the resulting stock and bundle counts. Nothing is
+          written to Shopify and the order is not marked as processed.
+        </s-paragraph>
+
+        <s-stack direction="block" gap="base">
+          <s-select
+            label="Simulate"
+            value={mode}
+            onChange={(e) => setMode(e.currentTarget.value === "cart" ? "cart" : "order")}
+          >
+            <s-option value="order">An existing order</s-option>
+            <s-option value="cart">A hand-built cart</s-option>
+          </s-select>
+
+          {mode === "order" ? (
+            <s-text-field
+              label="Order"
+              placeholder="#1001, 5551234567890 or gid://shopify/Order/5551234567890"
+              value={orderId}
+              onInput={(e) => setOrderId(e.currentTarget.value)}
+            />
+          ) : (
+            <s-stack direction="block" gap="base">
+              {cart.map((line, index) => (
+                <s-box key={line.variantId} padding="base" borderWidth="base" borderRadius="base">
+                  <s-stack direction="inline" gap="base">
+                    <s-text>{line.label}</s-text>
+                    <s-number-field
+                      label="Quantity"
+                      value={line.quantity.toString()}
+                      min={1}
+                      onChange={(e) => {
+                        const value = parseInt(e.currentTarget.value);
+                        updateQuantity(index, value > 0 ? value : 1);
+                      }}
+                    />
+                    <s-button
+                      variant="tertiary"
+                      onClick={() => setCart(cart.filter((_, i) => i !== index))}
+                    >
+                      Remove
+                    </s-button>
+                  </s-stack>
+                </s-box>
+              ))}
+
+              <VariantPicker
+                label="Add variant"
+                excludeIds={cart.map((line) => line.variantId)}
+                onSelect={(variant) =>
+                  setCart([...cart, { variantId: variant.id, label: formatVariantLabel(variant), quantity: 1 }])
+                }
+              />
+
+              <s-select
+                label="Location"
+                value={locationId}
+                onChange={(e) => setLocationId(e.currentTarget.value)}
+              >
+                <s-option value="">Fallback location (from settings)</s-option>
+                {locations.map((location) => (
+                  <s-option key={location.id} value={location.id}>
+                    {location.name}
+                  </s-option>
+                ))}
+              </s-select>
+
+              <s-date-field
+                label="Order date"
+                details="Selects the scheduled rules in effect. Leave empty to use today's rules."
+                value={date}
+                onChange={(e) => setDate(e.currentTarget.value)}
+              />
+            </s-stack>
+          )}
+
+          <s-stack direction="inline" gap="base">
+            <s-button
+              variant="primary"
+              onClick={handleSimulate}
+              loading={fetcher.state === "submitting"}
+            >
+              Run simulation
+            </s-button>
+          </s-stack>
+        </s-stack>
+      </s-section>
+
+      {result && (
+        <s-section heading={result.orderName ? `Result for ${result.orderName}` : "Result"}>
+          <s-stack direction="block" gap="base">
+            <s-text color="subdued">
+              Using the rules in effect on {new Date(result.rulesAt).toLocaleString()}
+            </s-text>
+
+            {result.notes.map((note) => (
+              <s-banner key={note} tone="warning">
+                {note}
+              </s-banner>
+            ))}
+
+            <s-heading>Line items</s-heading>
+            {result.lineItems.map((lineItem) => (
+              <s-text key={lineItem.lineItemId}>
+                {lineItem.quantity} × {getVariantName(lineItem.variantId)}
+                {lineItem.hasRule ? "" : " (no rule, left to Shopify)"}
+              </s-text>
+            ))}
+
+            <s-heading>Inventory adjustments</s-heading>
+            {result.adjustments.length === 0 && (
+              <s-text>No adjustments would be made.</s-text>
+            )}
+            {result.adjustments.map((adjustment) => (
+              <s-box
+                key={`${adjustment.inventoryItemId}:${adjustment.locationId}`}
+                padding="base"
+                borderWidth="base"
+                borderRadius="base"
+              >
+                <s-stack direction="block" gap="base">
+                  <s-text>
+                    {adjustment.variantName}
+                    {adjustment.sku ? ` (${adjustment.sku})` : ""} at {getLocationName(adjustment.locationId)}
+                  </s-text>
+                  <s-text color="subdued">
+                    {adjustment.appliedDelta > 0 ? "+" : ""}
+                    {adjustment.appliedDelta} available: {adjustment.available} → {adjustment.resultingAvailable}
+                    {adjustment.delta !== adjustment.appliedDelta
+                      ? ` (exact change ${adjustment.delta}, the fraction is carried until it adds up to a whole unit)`
+                      : ""}
+                  </s-text>
+                  {adjustment.substituteFor.length > 0 && (
+                    <s-text color="subdued">
+                      Substitute for {adjustment.substituteFor.join(", ")}
+                    </s-text>
+                  )}
+                  {adjustment.shortfall > 0 && (
+                    <s-text tone="critical">
+                      Short {adjustment.shortfall} unit(s)
+                    </s-text>
+                  )}
+                </s-stack>
+              </s-box>
+            ))}
+
+            {result.bundleCounts.length > 0 && (
+              <>
+                <s-heading>Bundle counts</s-heading>
+                {result.bundleCounts.map((bundleCount) => (
+                  <s-text key={`${bundleCount.variantId}:${bundleCount.locationId}`}>
+                    {getVariantName(bundleCount.variantId)} at {getLocationName(bundleCount.locationId)}:{" "}
+                    {bundleCount.before} → {bundleCount.after}
+                  </s-text>
+                ))}
+              </>
+            )}
+          </s-stack>
+        </s-section>
+      )}
+    </s-page>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
@@ -21,6 +21,10 @@ export default function App() {
         <s-link href="/app">Home</s-link>
         <s-link href="/app/additional">Additional page</s-link>
         <s-link href="/app/inventory-config">Inventory Config</s-link>
+        <s-link href="/app/simulator">Deduction Simulator</s-link>
+        <s-link href="/app/shortfalls">Shortfalls</s-link>
+        <s-link href="/app/order-issues">Order issues</s-link>
+        <s-link href="/app/settings">Settings</s-link>
       </s-app-nav>
       <Outlet />
     </AppProvider>
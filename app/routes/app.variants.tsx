@@ -0,0 +1,27 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { searchVariants } from "../utils/variant-catalog.server";
+
+/**
+ * Resource route backing the variant picker in the inventory configuration editor.
+ * Returns one page of variants matching `query`, starting after the `after` cursor.
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+
+  if (!session) {
+    throw new Response("Unauthorized", { status: 401 });
+  }
+
+  const url = new URL(request.url);
+  const query = url.searchParams.get("query") || "";
+  const after = url.searchParams.get("after") || null;
+
+  const result = await searchVariants(admin, query, after);
+
+  return {
+    ...result,
+    query,
+    after,
+  };
+};
@@ -1,15 +1,17 @@
 import type { LoaderFunctionArgs } from "react-router";
 import db from "../db.server";
-import { calculateMultipackInventory } from "../utils/inventory-calculation.server";
+import { scheduleRecalculation } from "../utils/recalculation-queue.server";
 import { sessionStorage } from "../shopify.server";
-import { apiVersion } from "../shopify.server";
-import { shopifyApi } from "@shopify/shopify-api";
 
 /**
  * Cron job endpoint to sync multipack inventory for all shops
  * 
  * This endpoint should be called periodically (e.g., daily) to ensure
- * multipack inventory stays in sync with source variant inventory.
+ * multipack inventory stays in sync with source variant inventory. It queues a full
+ * recalculation of every shop, which the job worker runs like any other, so it never
+ * overlaps a shop's recalculation queued by webhooks.
+ * Scheduled rules don't depend on it: saving one queues recalculations at the start and
+ * end of its window.
  * 
  * Authentication: Uses a shared secret from environment variable CRON_SECRET
  * or can be called without auth in development (not recommended for production)
@@ -47,7 +49,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     // Process each shop
     for (const shop of uniqueShops) {
       try {
-        // Get a session for this shop to authenticate GraphQL requests
+        // A shop without a session has uninstalled the app
         const sessions = await sessionStorage.findSessionsByShop(shop);
 
         if (sessions.length === 0) {
@@ -56,34 +58,10 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
           continue;
         }
 
-        // Use the first available session (prefer online sessions)
-        const session =
-          sessions.find((s) => s.isOnline) || sessions[0];
+        console.log(`Scheduling recalculation for shop: ${shop}`);
 
-        if (!session.accessToken) {
-          console.log(`No access token for shop ${shop}, skipping`);
-          results.push({ shop, success: false, error: "No access token" });
-          continue;
-        }
-
-        // Create an admin GraphQL client from the session
-        // Initialize Shopify API and create GraphQL client
-        const shopifyApiInstance = shopifyApi({
-          apiKey: process.env.SHOPIFY_API_KEY || "",
-          apiSecretKey: process.env.SHOPIFY_API_SECRET || "",
-          apiVersion: apiVersion,
-          scopes: process.env.SCOPES?.split(",") || [],
-          hostName: process.env.SHOPIFY_APP_URL
-            ? new URL(process.env.SHOPIFY_APP_URL).hostname
-            : "localhost",
-        });
-
-        const admin = new shopifyApiInstance.clients.Graphql({ session });
-
-        console.log(`Processing shop: ${shop}`);
-
-        // Calculate multipack inventory for this shop
-        await calculateMultipackInventory(admin, shop);
+        // Queue a recalculation of every bundle, merged with one already waiting
+        await scheduleRecalculation(shop);
 
         results.push({ shop, success: true });
       } catch (error) {
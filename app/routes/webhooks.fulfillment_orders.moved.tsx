@@ -0,0 +1,39 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { enqueueJob } from "../utils/job-queue.server";
+
+/**
+ * Webhook handler for fulfillment_orders/moved events.
+ *
+ * Queues the event for the background job worker and responds right away; the worker
+ * processes it with handleFulfillmentOrdersMoved (app/jobs/fulfillment-orders-moved.server.ts), retrying on failure.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, session, topic, payload, webhookId } = await authenticate.webhook(request);
+
+  if (!session) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  try {
+    // The delivery ID tells moves of the same fulfillment order apart; Shopify keeps its ID
+    // when it moves in full
+    const queued = await enqueueJob(
+      shop,
+      "fulfillment_orders/moved",
+      { ...payload, webhook_id: webhookId },
+      webhookId
+    );
+
+    if (!queued) {
+      console.log(`Webhook ${webhookId} for ${shop} is already queued, skipping`);
+    }
+
+    return new Response();
+  } catch (error) {
+    console.error(`Error queuing fulfillment_orders/moved webhook: ${error}`);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+};
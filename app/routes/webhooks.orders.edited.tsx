@@ -0,0 +1,32 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { enqueueJob } from "../utils/job-queue.server";
+
+/**
+ * Webhook handler for orders/edited events.
+ *
+ * Queues the event for the background job worker and responds right away; the worker
+ * processes it with handleOrdersEdited (app/jobs/orders-edited.server.ts), retrying on failure.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, session, topic, payload, webhookId } = await authenticate.webhook(request);
+
+  if (!session) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  try {
+    const queued = await enqueueJob(shop, "orders/edited", payload, webhookId);
+
+    if (!queued) {
+      console.log(`Webhook ${webhookId} for ${shop} is already queued, skipping`);
+    }
+
+    return new Response();
+  } catch (error) {
+    console.error(`Error queuing orders/edited webhook: ${error}`);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+};
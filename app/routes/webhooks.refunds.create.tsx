@@ -0,0 +1,32 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { enqueueJob } from "../utils/job-queue.server";
+
+/**
+ * Webhook handler for refunds/create events.
+ *
+ * Queues the event for the background job worker and responds right away; the worker
+ * processes it with handleRefundsCreate (app/jobs/refunds-create.server.ts), retrying on failure.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, session, topic, payload, webhookId } = await authenticate.webhook(request);
+
+  if (!session) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  try {
+    const queued = await enqueueJob(shop, "refunds/create", payload, webhookId);
+
+    if (!queued) {
+      console.log(`Webhook ${webhookId} for ${shop} is already queued, skipping`);
+    }
+
+    return new Response();
+  } catch (error) {
+    console.error(`Error queuing refunds/create webhook: ${error}`);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+};
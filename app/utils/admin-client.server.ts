@@ -0,0 +1,164 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+
+/**
+ * Leaky-bucket state of a shop's Admin API budget, as reported in `extensions.cost`
+ */
+interface ThrottleStatus {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number;
+}
+
+interface ShopBudget extends ThrottleStatus {
+  updatedAt: number;
+}
+
+// Times a throttled or failed call is tried before its error is thrown
+const MAX_ATTEMPTS = 5;
+
+// Wait before retrying a server error, doubled on each attempt
+const BASE_RETRY_DELAY_MS = 500;
+
+// Longest wait before any retry
+const MAX_RETRY_DELAY_MS = 30_000;
+
+// Cost assumed for a query that hasn't run yet
+const DEFAULT_QUERY_COST = 50;
+
+// Budget of each shop as of its last response, keyed by shop domain
+const budgets = new Map<string, ShopBudget>();
+
+// Requested cost of each query the last time it ran, keyed by query
+const queryCosts = new Map<string, number>();
+
+const wrappedClients = new WeakSet<AdminApiContext>();
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Estimate the points a shop has available now, from its last throttle status and restore rate
+ */
+function getAvailablePoints(budget: ShopBudget, now: number): number {
+  return Math.min(
+    budget.maximumAvailable,
+    budget.currentlyAvailable + (budget.restoreRate * (now - budget.updatedAt)) / 1000
+  );
+}
+
+/**
+ * Record the cost and throttle status returned with a response, or with a throttled error
+ */
+function recordCost(shop: string, query: string, body: unknown): void {
+  const cost = (body as { extensions?: { cost?: { requestedQueryCost?: number; throttleStatus?: ThrottleStatus } } })
+    ?.extensions?.cost;
+
+  if (typeof cost?.requestedQueryCost === "number") {
+    queryCosts.set(query, cost.requestedQueryCost);
+  }
+  if (cost?.throttleStatus) {
+    budgets.set(shop, { ...cost.throttleStatus, updatedAt: Date.now() });
+  }
+}
+
+/**
+ * Wait until the shop's budget has restored enough points for a query, then reserve them,
+ * so calls made in parallel wait for each other's cost too
+ */
+async function waitForBudget(shop: string, query: string): Promise<void> {
+  const budget = budgets.get(shop);
+  if (!budget || budget.restoreRate <= 0) {
+    return;
+  }
+
+  const cost = Math.min(queryCosts.get(query) ?? DEFAULT_QUERY_COST, budget.maximumAvailable);
+  const missing = cost - getAvailablePoints(budget, Date.now());
+
+  if (missing > 0) {
+    await sleep(Math.min((missing / budget.restoreRate) * 1000, MAX_RETRY_DELAY_MS));
+  }
+
+  const now = Date.now();
+  budgets.set(shop, { ...budget, currentlyAvailable: getAvailablePoints(budget, now) - cost, updatedAt: now });
+}
+
+/**
+ * Get how long to wait before retrying a failed call, or null when it shouldn't be retried.
+ *
+ * THROTTLED GraphQL errors wait for the points the query needs to restore, HTTP 429s wait
+ * for their Retry-After, and 5xx errors back off exponentially. Anything else (invalid
+ * queries, missing scopes, user errors) fails the same way when retried.
+ */
+function getRetryDelay(shop: string, query: string, error: unknown, attempt: number): number | null {
+  const { body, response } = (error || {}) as {
+    body?: { errors?: { graphQLErrors?: Array<{ extensions?: { code?: string } }> } };
+    response?: { code?: number; retryAfter?: number }; // HttpThrottlingError keeps Retry-After on its response
+  };
+  const backoff = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+
+  if (body?.errors?.graphQLErrors?.some((graphQLError) => graphQLError.extensions?.code === "THROTTLED")) {
+    recordCost(shop, query, body);
+
+    const budget = budgets.get(shop);
+    if (!budget || budget.restoreRate <= 0) {
+      return backoff;
+    }
+
+    const cost = Math.min(queryCosts.get(query) ?? DEFAULT_QUERY_COST, budget.maximumAvailable);
+    return Math.min(Math.max(((cost - budget.currentlyAvailable) / budget.restoreRate) * 1000, 0) + 100, MAX_RETRY_DELAY_MS);
+  }
+
+  if (response?.code === 429) {
+    return response.retryAfter ? Math.min(response.retryAfter * 1000, MAX_RETRY_DELAY_MS) : backoff;
+  }
+
+  if (response?.code !== undefined && response.code >= 500) {
+    return backoff;
+  }
+
+  return null;
+}
+
+/**
+ * Wrap an Admin API client so its calls respect the shop's query cost budget.
+ *
+ * Each call waits until the shop's leaky bucket has restored the points the query cost last
+ * time, and calls that are throttled or fail with a server error are retried with a delay.
+ * Errors that persist are thrown rather than turned into empty results, so callers can tell
+ * a lookup that failed from stock that is zero. Wrapping a wrapped client returns it as is.
+ */
+export function createAdminClient(admin: AdminApiContext, shop: string): AdminApiContext {
+  if (wrappedClients.has(admin)) {
+    return admin;
+  }
+
+  const graphql = (async (operation, options) => {
+    const query = String(operation);
+
+    for (let attempt = 1; ; attempt++) {
+      await waitForBudget(shop, query);
+
+      try {
+        const response = await admin.graphql(operation, options);
+        const text = await response.text();
+        try {
+          recordCost(shop, query, JSON.parse(text));
+        } catch {
+          // Not JSON; handed back to the caller as is
+        }
+        return new Response(text, { status: response.status, headers: response.headers });
+      } catch (error) {
+        const delay = attempt < MAX_ATTEMPTS ? getRetryDelay(shop, query, error, attempt) : null;
+        if (delay === null) {
+          throw error;
+        }
+
+        console.log(`Admin API call for ${shop} failed (attempt ${attempt}/${MAX_ATTEMPTS}), retrying in ${Math.round(delay)}ms: ${error}`);
+        await sleep(delay);
+      }
+    }
+  }) as AdminApiContext["graphql"];
+
+  const client: AdminApiContext = { ...admin, graphql };
+  wrappedClients.add(client);
+  return client;
+}
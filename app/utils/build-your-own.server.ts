@@ -0,0 +1,193 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import type { VariantRule } from "@prisma/client";
+import type { DeductionMapping } from "./bundle-expansion.server";
+import { roundQuantity } from "./component-remainders.server";
+
+export const BUILD_YOUR_OWN_RULE_TYPE = "build_your_own";
+
+// Line item properties holding the customer's picks: _flavor_1, _flavor_2, ...
+export const CHOICE_PROPERTY_PREFIX = "_flavor_";
+
+// Variant metafield read by the build-your-own box theme block
+const PICKER_METAFIELD_NAMESPACE = "moreless";
+const PICKER_METAFIELD_KEY = "build_your_own";
+
+export interface LineItemProperty {
+  name: string;
+  value: string | number | null;
+}
+
+export interface ChoiceOption {
+  id: string;
+  title: string;
+}
+
+type BuildYourOwnRule = Pick<
+  VariantRule,
+  "variantId" | "type" | "choiceVariantIds" | "choiceCount" | "quantityPerChoice"
+>;
+
+/**
+ * Whether a rule takes its components from the customer's picks
+ */
+export function isBuildYourOwnRule(rule: Pick<VariantRule, "type">): boolean {
+  return rule.type === BUILD_YOUR_OWN_RULE_TYPE;
+}
+
+/**
+ * Parse the allow-list of variants customers may pick for a build-your-own box
+ */
+export function parseChoiceVariantIds(choiceVariantIds: string | null | undefined): string[] {
+  if (!choiceVariantIds) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(choiceVariantIds);
+    return Array.isArray(parsed)
+      ? parsed.filter((id): id is string => typeof id === "string")
+      : [];
+  } catch (error) {
+    console.error(`Error parsing choice variant IDs: ${error}`);
+    return [];
+  }
+}
+
+/**
+ * Normalize a picked variant to a variant GID (the theme block writes GIDs, numeric IDs are accepted too)
+ */
+function toVariantGid(value: string): string {
+  return /^\d+$/.test(value) ? `gid://shopify/ProductVariant/${value}` : value;
+}
+
+/**
+ * Turn a line item's picks into deduction mappings for one box.
+ *
+ * Picks are read from the _flavor_<n> properties in order. Picks outside the rule's
+ * allow-list are ignored, as are picks beyond the box size, so a tampered cart can't
+ * deduct arbitrary variants. Picking the same variant twice deducts it twice. Ignored
+ * picks, and picks missing from a box that isn't full, are described in `invalidPicks`.
+ */
+export function getChosenComponentMappings(
+  rule: BuildYourOwnRule,
+  properties: LineItemProperty[] | undefined,
+  invalidPicks: string[] = []
+): DeductionMapping[] {
+  const allowedVariantIds = new Set(parseChoiceVariantIds(rule.choiceVariantIds));
+  const quantityPerChoice = rule.quantityPerChoice || 1;
+
+  const picks = (properties || [])
+    .map((property) => ({
+      index: Number(property.name.slice(CHOICE_PROPERTY_PREFIX.length)),
+      isChoice: property.name.startsWith(CHOICE_PROPERTY_PREFIX),
+      value: property.value?.toString().trim() || "",
+    }))
+    .filter((pick) => pick.isChoice && Number.isInteger(pick.index) && pick.value)
+    .sort((a, b) => a.index - b.index);
+
+  const chosen = new Map<string, number>();
+  let pickCount = 0;
+
+  for (const pick of picks) {
+    if (rule.choiceCount && pickCount >= rule.choiceCount) {
+      console.log(`Ignoring extra pick ${pick.value} for box ${rule.variantId}`);
+      invalidPicks.push(`Extra pick ${pick.value} beyond the box's ${rule.choiceCount} picks was ignored`);
+      continue;
+    }
+
+    const variantId = toVariantGid(pick.value);
+    if (!allowedVariantIds.has(variantId)) {
+      console.log(`Ignoring pick ${pick.value} for box ${rule.variantId}: not in the allow-list`);
+      invalidPicks.push(`Pick ${pick.value} isn't one of the box's choices and was ignored`);
+      continue;
+    }
+
+    chosen.set(variantId, roundQuantity((chosen.get(variantId) || 0) + quantityPerChoice));
+    pickCount++;
+  }
+
+  if (rule.choiceCount && pickCount < rule.choiceCount) {
+    console.log(`Box ${rule.variantId} has ${pickCount} of ${rule.choiceCount} picks`);
+    invalidPicks.push(`Box has ${pickCount} of ${rule.choiceCount} picks; the missing picks weren't deducted`);
+  }
+
+  return Array.from(chosen, ([targetVariantId, multiplier]) => ({ targetVariantId, multiplier }));
+}
+
+/**
+ * Publish a box's picker configuration to the variant metafield read by the theme block,
+ * or remove it when the variant is no longer a build-your-own box
+ */
+export async function syncPickerMetafield(
+  admin: AdminApiContext,
+  variantId: string,
+  picker: { choiceCount: number; quantityPerChoice: number; options: ChoiceOption[] } | null
+): Promise<void> {
+  if (!picker) {
+    const response = await admin.graphql(
+      `#graphql
+        mutation deletePickerMetafield($metafields: [MetafieldIdentifierInput!]!) {
+          metafieldsDelete(metafields: $metafields) {
+            userErrors {
+              field
+              message
+            }
+          }
+        }
+      `,
+      {
+        variables: {
+          metafields: [
+            {
+              ownerId: variantId,
+              namespace: PICKER_METAFIELD_NAMESPACE,
+              key: PICKER_METAFIELD_KEY,
+            },
+          ],
+        },
+      }
+    );
+
+    const data = await response.json();
+    if (data.data?.metafieldsDelete?.userErrors?.length > 0) {
+      console.error("Picker metafield delete errors:", data.data.metafieldsDelete.userErrors);
+    }
+    return;
+  }
+
+  const response = await admin.graphql(
+    `#graphql
+      mutation setPickerMetafield($metafields: [MetafieldsSetInput!]!) {
+        metafieldsSet(metafields: $metafields) {
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `,
+    {
+      variables: {
+        metafields: [
+          {
+            ownerId: variantId,
+            namespace: PICKER_METAFIELD_NAMESPACE,
+            key: PICKER_METAFIELD_KEY,
+            type: "json",
+            value: JSON.stringify({
+              propertyPrefix: CHOICE_PROPERTY_PREFIX,
+              choiceCount: picker.choiceCount,
+              quantityPerChoice: picker.quantityPerChoice,
+              options: picker.options,
+            }),
+          },
+        ],
+      },
+    }
+  );
+
+  const data = await response.json();
+  if (data.data?.metafieldsSet?.userErrors?.length > 0) {
+    console.error("Picker metafield errors:", data.data.metafieldsSet.userErrors);
+  }
+}
@@ -0,0 +1,69 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import type { VariantRule } from "@prisma/client";
+import { buildBundleMappings, expandDeductionMappings, parseDeductionMappings } from "./bundle-expansion.server";
+import { getOverrideLocationIds, getRulesAtLocation } from "./location-rules.server";
+import { getVariantsByInventoryItemId } from "./variant-catalog.server";
+
+type IndexedRule = Pick<VariantRule, "variantId" | "deductionMappings" | "locationMappings">;
+
+/**
+ * Bundle variants whose bundle count depends on a component, keyed by the component's variant ID
+ */
+export type ComponentIndex = Map<string, Set<string>>;
+
+/**
+ * Build the reverse index from components to the bundles made from them.
+ *
+ * Nested bundles are indexed under the stocked components at the bottom of their tree, and
+ * substitutes count as components. Mappings overridden at a location are indexed as well,
+ * so a bundle is found whichever location its component's stock changed at.
+ */
+export function buildComponentIndex(variantRules: IndexedRule[]): ComponentIndex {
+  const index: ComponentIndex = new Map();
+
+  for (const locationId of [null, ...getOverrideLocationIds(variantRules)]) {
+    const rules = locationId ? getRulesAtLocation(variantRules, locationId) : variantRules;
+    const bundleMappings = buildBundleMappings(rules);
+
+    for (const rule of rules) {
+      const mappings = parseDeductionMappings(rule.deductionMappings);
+      if (!mappings) {
+        continue;
+      }
+
+      for (const component of expandDeductionMappings(rule.variantId, mappings, bundleMappings)) {
+        for (const componentVariantId of [component.targetVariantId, ...(component.substitutes || [])]) {
+          const bundles = index.get(componentVariantId) || new Set<string>();
+          bundles.add(rule.variantId);
+          index.set(componentVariantId, bundles);
+        }
+      }
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Find the bundle variants whose bundle count depends on the stock of any of the inventory items
+ */
+export async function findDependentBundles(
+  admin: AdminApiContext,
+  variantRules: IndexedRule[],
+  inventoryItemIds: string[]
+): Promise<string[]> {
+  const index = buildComponentIndex(variantRules);
+  if (index.size === 0 || inventoryItemIds.length === 0) {
+    return [];
+  }
+
+  const variants = await getVariantsByInventoryItemId(admin, inventoryItemIds);
+  const bundles = new Set<string>();
+  for (const variant of variants.values()) {
+    for (const bundleVariantId of index.get(variant.id) || []) {
+      bundles.add(bundleVariantId);
+    }
+  }
+
+  return Array.from(bundles);
+}
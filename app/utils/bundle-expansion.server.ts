@@ -0,0 +1,313 @@
+import type { VariantRule } from "@prisma/client";
+import { roundQuantity, roundToUnit } from "./component-remainders.server";
+
+export interface DeductionMapping {
+  targetVariantId: string;
+  multiplier: number;
+  substitutes?: string[]; // Variants deducted instead, in order, when the target is short
+  unitSize?: number; // Set when the multiplier counts base units of a component stocked in packs of this size
+}
+
+/**
+ * Deduction mappings of every bundle variant, keyed by variant ID
+ */
+export type BundleMappings = Map<string, DeductionMapping[]>;
+
+/**
+ * Parse the deduction mappings stored on a variant rule.
+ * Returns null when the rule has no mappings or they can't be parsed.
+ */
+export function parseDeductionMappings(
+  deductionMappings: string | null | undefined
+): DeductionMapping[] | null {
+  if (!deductionMappings) {
+    return null;
+  }
+
+  try {
+    const mappings = JSON.parse(deductionMappings);
+    return Array.isArray(mappings) && mappings.length > 0 ? mappings : null;
+  } catch (error) {
+    console.error(`Error parsing deduction mappings: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Get how many of the target's stocked units a mapping deducts per bundle, converting
+ * base units (e.g. 2 each of a case of 12) into stocked units (1/6 case)
+ */
+export function getComponentMultiplier(mapping: DeductionMapping): number {
+  return mapping.unitSize ? roundToUnit(mapping.multiplier / mapping.unitSize, mapping.unitSize) : mapping.multiplier;
+}
+
+/**
+ * Index the deduction mappings of a shop's variant rules by variant ID.
+ *
+ * Pass the rules in effect at one time when expanding bundles; a variant given several
+ * rules (e.g. all of its scheduled compositions, for cycle checks) gets all their mappings.
+ */
+export function buildBundleMappings(
+  variantRules: Array<Pick<VariantRule, "variantId" | "deductionMappings">>
+): BundleMappings {
+  const bundleMappings: BundleMappings = new Map();
+
+  for (const rule of variantRules) {
+    const mappings = parseDeductionMappings(rule.deductionMappings);
+    if (mappings) {
+      bundleMappings.set(rule.variantId, [...(bundleMappings.get(rule.variantId) || []), ...mappings]);
+    }
+  }
+
+  return bundleMappings;
+}
+
+/**
+ * Get the mappings a mapping target expands into, or null when the target is a stocked component.
+ *
+ * A target is a nested bundle when it has deduction mappings of its own, none of which point
+ * at itself; a variant mapped to itself keeps its own stock and is deducted directly.
+ */
+function getNestedMappings(
+  targetVariantId: string,
+  bundleMappings: BundleMappings
+): DeductionMapping[] | null {
+  const mappings = bundleMappings.get(targetVariantId);
+
+  if (!mappings || mappings.some((mapping) => mapping.targetVariantId === targetVariantId)) {
+    return null;
+  }
+
+  return mappings;
+}
+
+/**
+ * Whether a variant is a bundle that expands into components of its own
+ */
+export function isNestedBundle(variantId: string, bundleMappings: BundleMappings): boolean {
+  return getNestedMappings(variantId, bundleMappings) !== null;
+}
+
+/**
+ * Find a cycle in the bundle tree of a variant, using `mappings` as its (unsaved) mappings.
+ *
+ * Returns the variant IDs along the cycle, starting and ending with the repeated variant,
+ * or null when the tree can be expanded down to stocked components.
+ */
+export function findBundleCycle(
+  variantId: string,
+  mappings: DeductionMapping[],
+  bundleMappings: BundleMappings
+): string[] | null {
+  const proposedMappings: BundleMappings = new Map(bundleMappings);
+  proposedMappings.set(variantId, mappings);
+
+  const visit = (
+    currentVariantId: string,
+    currentMappings: DeductionMapping[],
+    path: string[]
+  ): string[] | null => {
+    for (const mapping of currentMappings) {
+      if (mapping.targetVariantId === currentVariantId) {
+        continue;
+      }
+
+      const nestedMappings = getNestedMappings(mapping.targetVariantId, proposedMappings);
+      if (!nestedMappings) {
+        continue;
+      }
+
+      const cycleStart = path.indexOf(mapping.targetVariantId);
+      if (cycleStart !== -1) {
+        return [...path.slice(cycleStart), mapping.targetVariantId];
+      }
+
+      const cycle = visit(mapping.targetVariantId, nestedMappings, [...path, mapping.targetVariantId]);
+      if (cycle) {
+        return cycle;
+      }
+    }
+
+    return null;
+  };
+
+  return visit(variantId, mappings, [variantId]);
+}
+
+/**
+ * Expand a bundle's deduction mappings down to stocked components.
+ *
+ * Targets that are bundles themselves are replaced by their own components, multiplying the
+ * multipliers along the path (a Party Box of 2 variety packs of 3 flavors deducts 2 × 1 of each
+ * flavor per box). Components reached through several paths are combined into one mapping,
+ * keeping the substitutes of every path in order. Components deducted in base units keep
+ * their multiplier in base units, so packs are counted in whole base units.
+ * A cycle saved before validation existed is logged and its repeated target treated as a component.
+ */
+export function expandDeductionMappings(
+  variantId: string,
+  mappings: DeductionMapping[],
+  bundleMappings: BundleMappings
+): DeductionMapping[] {
+  const components = new Map<string, { multiplier: number; unitSize?: number }>();
+  const substitutes = new Map<string, string[]>();
+
+  const addComponent = (targetVariantId: string, multiplier: number, unitSize?: number) => {
+    const existing = components.get(targetVariantId);
+
+    if (!existing) {
+      components.set(targetVariantId, { multiplier, unitSize });
+    } else if (existing.unitSize === unitSize) {
+      existing.multiplier = roundQuantity(existing.multiplier + multiplier);
+    } else if (existing.unitSize && !unitSize) {
+      // Paths in stocked units are added in the base units of the others
+      existing.multiplier = roundQuantity(existing.multiplier + multiplier * existing.unitSize);
+    } else if (unitSize && !existing.unitSize) {
+      components.set(targetVariantId, {
+        multiplier: roundQuantity(existing.multiplier * unitSize + multiplier),
+        unitSize,
+      });
+    } else {
+      components.set(targetVariantId, {
+        multiplier: roundQuantity(
+          getComponentMultiplier({ targetVariantId, ...existing }) +
+            getComponentMultiplier({ targetVariantId, multiplier, unitSize })
+        ),
+      });
+    }
+  };
+
+  const expand = (
+    currentVariantId: string,
+    currentMappings: DeductionMapping[],
+    multiplier: number,
+    path: string[]
+  ) => {
+    for (const mapping of currentMappings) {
+      const quantity = roundQuantity(multiplier * mapping.multiplier);
+      const nestedMappings =
+        mapping.targetVariantId === currentVariantId
+          ? null
+          : getNestedMappings(mapping.targetVariantId, bundleMappings);
+
+      if (nestedMappings && path.includes(mapping.targetVariantId)) {
+        console.error(
+          `Cyclic deduction mappings for variant ${variantId}: ${[...path, mapping.targetVariantId].join(" -> ")}`
+        );
+      } else if (nestedMappings) {
+        expand(
+          mapping.targetVariantId,
+          nestedMappings,
+          roundQuantity(multiplier * getComponentMultiplier(mapping)),
+          [...path, mapping.targetVariantId]
+        );
+        continue;
+      }
+
+      addComponent(mapping.targetVariantId, quantity, mapping.unitSize);
+      if (mapping.substitutes && mapping.substitutes.length > 0) {
+        const existing = substitutes.get(mapping.targetVariantId) || [];
+        substitutes.set(mapping.targetVariantId, [
+          ...existing,
+          ...mapping.substitutes.filter((id) => !existing.includes(id)),
+        ]);
+      }
+    }
+  };
+
+  expand(variantId, mappings, 1, [variantId]);
+
+  return Array.from(components, ([targetVariantId, { multiplier, unitSize }]) => {
+    const componentSubstitutes = substitutes.get(targetVariantId);
+    return {
+      targetVariantId,
+      multiplier,
+      ...(componentSubstitutes ? { substitutes: componentSubstitutes } : {}),
+      ...(unitSize ? { unitSize } : {}),
+    };
+  });
+}
+
+/**
+ * Count the whole bundles' worth of a component in stock, counting packs in whole base units
+ */
+function countComponentBundles(stock: number, component: DeductionMapping): number {
+  const units = component.unitSize ? Math.round(stock * component.unitSize) : stock;
+  return Math.max(0, Math.floor(roundQuantity(units / component.multiplier)));
+}
+
+/**
+ * Get the stock left of a component after taking some bundles' worth of it
+ */
+function takeComponentBundles(stock: number, component: DeductionMapping, bundles: number): number {
+  if (!component.unitSize) {
+    return roundQuantity(stock - bundles * component.multiplier);
+  }
+
+  const units = Math.round(stock * component.unitSize) - bundles * component.multiplier;
+  return roundToUnit(units / component.unitSize, component.unitSize);
+}
+
+/**
+ * Count the bundles that can be made from the available stock of their components, keyed by
+ * variant ID, drawing on each component's substitutes once the component itself runs out.
+ *
+ * Components without substitutes are reserved first; components with substitutes then take
+ * whole bundles' worth from the target and from each substitute in order, like order deductions.
+ */
+export function countBundles(
+  components: DeductionMapping[],
+  available: Map<string, number>
+): number {
+  if (components.length === 0) {
+    return 0;
+  }
+
+  const canMake = (bundles: number): boolean => {
+    const remaining = new Map(available);
+    const ordered = [
+      ...components.filter((component) => !component.substitutes?.length),
+      ...components.filter((component) => component.substitutes?.length),
+    ];
+
+    for (const component of ordered) {
+      let needed = bundles;
+      for (const candidateId of [component.targetVariantId, ...(component.substitutes || [])]) {
+        const stock = remaining.get(candidateId) || 0;
+        const taken = Math.min(needed, countComponentBundles(stock, component));
+        remaining.set(candidateId, takeComponentBundles(stock, component, taken));
+        needed -= taken;
+        if (needed === 0) {
+          break;
+        }
+      }
+      if (needed > 0) {
+        return false;
+      }
+    }
+
+    return true;
+  };
+
+  // The most each component could supply on its own bounds the search
+  let high = Math.min(
+    ...components.map((component) =>
+      [component.targetVariantId, ...(component.substitutes || [])].reduce(
+        (sum, candidateId) => sum + countComponentBundles(available.get(candidateId) || 0, component),
+        0
+      )
+    )
+  );
+  let low = 0;
+
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (canMake(middle)) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return low;
+}
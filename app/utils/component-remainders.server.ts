@@ -0,0 +1,212 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import db from "../db.server";
+import {
+  adjustInventoryQuantities,
+  consolidateAdjustments,
+} from "./inventory-write.server";
+import type {
+  InventoryAdjustment,
+  InventoryWriteOptions,
+  InventoryWriteResult,
+} from "./inventory-write.server";
+
+// Fractional quantities are kept to 6 decimal places so repeated float math nets to whole units
+const QUANTITY_DECIMALS = 6;
+
+/**
+ * Round a fractional quantity to the precision used for deductions and remainders
+ */
+export function roundQuantity(value: number): number {
+  const factor = 10 ** QUANTITY_DECIMALS;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Round a quantity of a component stocked in units of `unitSize` base units (e.g. cases
+ * of 12) to whole base units, so repeated fractions like 1/12 net to whole stocked units
+ */
+export function roundToUnit(value: number, unitSize?: number | null): number {
+  if (!unitSize || unitSize <= 1) {
+    return roundQuantity(value);
+  }
+  return roundQuantity(Math.round(value * unitSize) / unitSize);
+}
+
+/**
+ * Load the unit size of a shop's components stocked in multi-unit packs, keyed by inventory item
+ */
+export async function getUnitSizes(shop: string): Promise<Map<string, number>> {
+  const units = await db.componentUnit.findMany({
+    where: { shop },
+    select: { inventoryItemId: true, unitSize: true },
+  });
+
+  return new Map(units.map((unit) => [unit.inventoryItemId, unit.unitSize]));
+}
+
+/**
+ * Key used to look up the remainder of an inventory item at a location
+ */
+export function getRemainderKey(inventoryItemId: string, locationId: string): string {
+  return `${inventoryItemId}:${locationId}`;
+}
+
+/**
+ * Load the fractional remainders carried for a shop's components, keyed by inventory item and location
+ */
+export async function getComponentRemainders(shop: string): Promise<Map<string, number>> {
+  const remainders = await db.componentRemainder.findMany({
+    where: { shop },
+  });
+
+  return new Map(
+    remainders
+      .filter((entry) => entry.remainder !== 0)
+      .map((entry) => [getRemainderKey(entry.inventoryItemId, entry.locationId), entry.remainder])
+  );
+}
+
+/**
+ * Split adjustments into whole units to apply now and fractions to carry.
+ *
+ * Each fraction is added to the remainder of its inventory item and location; once the
+ * remainder reaches a whole unit, that unit is moved into the adjustment (four 0.25 sales
+ * deduct exactly one unit). Remainders are updated with atomic increments so concurrent
+ * orders can't both settle the same unit. Remainders of components stocked in packs (e.g.
+ * the opened case of a case of 12) are kept to whole base units. Returns the whole-unit
+ * adjustments and the net change made to each remainder.
+ */
+export async function carryRemainders(
+  shop: string,
+  adjustments: InventoryAdjustment[]
+): Promise<{ adjustments: InventoryAdjustment[]; carried: InventoryAdjustment[] }> {
+  const wholeAdjustments: InventoryAdjustment[] = [];
+  const carried: InventoryAdjustment[] = [];
+  const unitSizes = await getUnitSizes(shop);
+
+  for (const adjustment of consolidateAdjustments(adjustments)) {
+    const delta = roundQuantity(adjustment.delta);
+    const wholeDelta = Math.trunc(delta);
+    const fraction = roundQuantity(delta - wholeDelta);
+
+    if (fraction === 0) {
+      wholeAdjustments.push({ ...adjustment, delta: wholeDelta });
+      continue;
+    }
+
+    const where = {
+      shop_inventoryItemId_locationId: {
+        shop,
+        inventoryItemId: adjustment.inventoryItemId,
+        locationId: adjustment.locationId,
+      },
+    };
+
+    const updated = await db.componentRemainder.upsert({
+      where,
+      create: {
+        shop,
+        inventoryItemId: adjustment.inventoryItemId,
+        locationId: adjustment.locationId,
+        remainder: fraction,
+      },
+      update: {
+        remainder: { increment: fraction },
+      },
+    });
+
+    const remainder = roundToUnit(updated.remainder, unitSizes.get(adjustment.inventoryItemId));
+    const settled = Math.trunc(remainder);
+
+    // Settle whole units and drop the float drift below a base unit
+    const correction = roundQuantity(updated.remainder - (remainder - settled));
+    if (correction !== 0) {
+      await db.componentRemainder.update({
+        where,
+        data: { remainder: { decrement: correction } },
+      });
+    }
+
+    carried.push({ ...adjustment, delta: roundQuantity(fraction - correction) });
+    wholeAdjustments.push({ ...adjustment, delta: wholeDelta + settled });
+  }
+
+  return { adjustments: wholeAdjustments, carried };
+}
+
+/**
+ * Work out what carryRemainders would do with the given remainders and unit sizes, without
+ * writing anything. Returns the whole-unit adjustments and the remainders they would leave behind.
+ */
+export function previewRemainders(
+  adjustments: InventoryAdjustment[],
+  remainders: Map<string, number>,
+  unitSizes: Map<string, number> = new Map()
+): { adjustments: InventoryAdjustment[]; remainders: Map<string, number> } {
+  const wholeAdjustments: InventoryAdjustment[] = [];
+  const nextRemainders = new Map(remainders);
+
+  for (const adjustment of consolidateAdjustments(adjustments)) {
+    const delta = roundQuantity(adjustment.delta);
+    const wholeDelta = Math.trunc(delta);
+    const fraction = roundQuantity(delta - wholeDelta);
+
+    if (fraction === 0) {
+      wholeAdjustments.push({ ...adjustment, delta: wholeDelta });
+      continue;
+    }
+
+    const key = getRemainderKey(adjustment.inventoryItemId, adjustment.locationId);
+    const remainder = roundToUnit(
+      (nextRemainders.get(key) || 0) + fraction,
+      unitSizes.get(adjustment.inventoryItemId)
+    );
+    const settled = Math.trunc(remainder);
+
+    nextRemainders.set(key, roundQuantity(remainder - settled));
+    wholeAdjustments.push({ ...adjustment, delta: wholeDelta + settled });
+  }
+
+  return { adjustments: wholeAdjustments, remainders: nextRemainders };
+}
+
+/**
+ * Undo remainder changes made for a write that Shopify didn't apply
+ */
+export async function releaseRemainders(shop: string, carried: InventoryAdjustment[]): Promise<void> {
+  for (const entry of carried) {
+    await db.componentRemainder.update({
+      where: {
+        shop_inventoryItemId_locationId: {
+          shop,
+          inventoryItemId: entry.inventoryItemId,
+          locationId: entry.locationId,
+        },
+      },
+      data: { remainder: { decrement: entry.delta } },
+    });
+  }
+}
+
+/**
+ * Apply adjustments that may contain fractional deltas (e.g. 0.25 of a 1 kg bulk SKU per 250 g pouch).
+ *
+ * Whole units are applied to "available" right away and fractions are carried per shop,
+ * component and location until they add up to whole units.
+ */
+export async function adjustInventoryWithRemainders(
+  admin: AdminApiContext,
+  shop: string,
+  adjustments: InventoryAdjustment[],
+  options: InventoryWriteOptions = {}
+): Promise<InventoryWriteResult> {
+  const { adjustments: wholeAdjustments, carried } = await carryRemainders(shop, adjustments);
+
+  const result = await adjustInventoryQuantities(admin, wholeAdjustments, options);
+
+  if (!result.success) {
+    await releaseRemainders(shop, carried);
+  }
+
+  return result;
+}
@@ -0,0 +1,79 @@
+import type { ComponentUnit } from "@prisma/client";
+import db from "../db.server";
+import { parseDeductionMappings } from "./bundle-expansion.server";
+import { parseLocationMappings } from "./location-rules.server";
+
+/**
+ * How a component is stocked, e.g. in cases of 12 each
+ */
+export interface ComponentUnitDefinition {
+  variantId: string;
+  inventoryItemId: string;
+  unitName: string;
+  baseUnitName: string;
+  unitSize: number;
+}
+
+/**
+ * Get the unit definitions of a shop's components
+ */
+export async function getComponentUnits(shop: string): Promise<ComponentUnit[]> {
+  return db.componentUnit.findMany({
+    where: { shop },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+/**
+ * Define, or redefine, the unit a component is stocked in
+ */
+export async function saveComponentUnit(
+  shop: string,
+  definition: ComponentUnitDefinition
+): Promise<void> {
+  await db.componentUnit.upsert({
+    where: { shop_variantId: { shop, variantId: definition.variantId } },
+    create: { shop, ...definition },
+    update: definition,
+  });
+}
+
+/**
+ * Remove a component's unit definition
+ */
+export async function deleteComponentUnit(shop: string, variantId: string): Promise<void> {
+  await db.componentUnit.deleteMany({
+    where: { shop, variantId },
+  });
+}
+
+/**
+ * Count the rules with a mapping that deducts a component in its base units, other than
+ * `unitSize` base units per stocked unit when given. Those mappings would deduct the wrong
+ * amount if the component's unit changed.
+ */
+export async function countRulesUsingBaseUnits(
+  shop: string,
+  variantId: string,
+  unitSize?: number
+): Promise<number> {
+  const rules = await db.variantRule.findMany({
+    where: {
+      shop,
+      OR: [{ deductionMappings: { contains: variantId } }, { locationMappings: { contains: variantId } }],
+    },
+    select: { deductionMappings: true, locationMappings: true },
+  });
+
+  return rules.filter((rule) =>
+    [
+      ...(parseDeductionMappings(rule.deductionMappings) || []),
+      ...Object.values(parseLocationMappings(rule.locationMappings)).flat(),
+    ].some(
+      (mapping) =>
+        mapping.targetVariantId === variantId &&
+        mapping.unitSize !== undefined &&
+        mapping.unitSize !== unitSize
+    )
+  ).length;
+}
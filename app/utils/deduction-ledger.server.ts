@@ -0,0 +1,299 @@
+import type { OrderDeduction } from "@prisma/client";
+import db from "../db.server";
+import type { LineItemDeduction } from "./order-deductions.server";
+import type { InventoryAdjustment } from "./inventory-write.server";
+import { roundQuantity } from "./component-remainders.server";
+
+export interface LedgerItemPosition {
+  inventoryItemId: string;
+  locationId: string;
+  delta: number; // Net change still applied for this line item
+}
+
+/**
+ * What is currently deducted for one line item, netted over every ledger row
+ */
+export interface LedgerLineItemPosition {
+  lineItemId: string;
+  variantId: string;
+  units: number; // Line item units still deducted
+  unitsByLocation: Record<string, number>;
+  ruleSnapshot: string | null;
+  items: LedgerItemPosition[];
+}
+
+/**
+ * Check whether an event has already been recorded for an order
+ */
+export async function hasLedgerSource(
+  processedOrderId: string,
+  source: string
+): Promise<boolean> {
+  const count = await db.orderDeduction.count({
+    where: { processedOrderId, source },
+  });
+  return count > 0;
+}
+
+/**
+ * Persist the adjustments applied for an order as ledger rows
+ */
+export async function recordOrderDeductions(
+  processedOrderId: string,
+  deductions: LineItemDeduction[],
+  adjustmentGroupId: string | null,
+  source: string
+): Promise<void> {
+  if (deductions.length === 0) {
+    return;
+  }
+
+  await db.orderDeduction.createMany({
+    data: deductions.map((deduction) => ({
+      processedOrderId,
+      lineItemId: deduction.lineItemId,
+      variantId: deduction.variantId,
+      inventoryItemId: deduction.inventoryItemId,
+      locationId: deduction.locationId,
+      quantity: deduction.quantity,
+      delta: deduction.delta,
+      ruleSnapshot: deduction.ruleSnapshot,
+      substituteForVariantId: deduction.substituteForVariantId || null,
+      adjustmentGroupId,
+      source,
+    })),
+  });
+}
+
+/**
+ * Net ledger rows into one position per line item, keeping each inventory item's
+ * net change per location so split and moved line items are reversed where the
+ * stock was actually taken from
+ */
+export function buildLedgerPositions(
+  entries: OrderDeduction[]
+): LedgerLineItemPosition[] {
+  const positions = new Map<string, {
+    position: LedgerLineItemPosition;
+    nets: Map<string, LedgerItemPosition>;
+  }>();
+
+  for (const entry of entries) {
+    let state = positions.get(entry.lineItemId);
+    if (!state) {
+      state = {
+        position: {
+          lineItemId: entry.lineItemId,
+          variantId: entry.variantId,
+          units: 0,
+          unitsByLocation: {},
+          ruleSnapshot: null,
+          items: [],
+        },
+        nets: new Map(),
+      };
+      positions.set(entry.lineItemId, state);
+    }
+
+    state.position.units += entry.quantity;
+    state.position.unitsByLocation[entry.locationId] =
+      (state.position.unitsByLocation[entry.locationId] || 0) + entry.quantity;
+    if (entry.ruleSnapshot) {
+      state.position.ruleSnapshot = entry.ruleSnapshot;
+    }
+
+    const key = `${entry.inventoryItemId}:${entry.locationId}`;
+    const net = state.nets.get(key);
+    if (net) {
+      net.delta += entry.delta;
+    } else {
+      state.nets.set(key, {
+        inventoryItemId: entry.inventoryItemId,
+        locationId: entry.locationId,
+        delta: entry.delta,
+      });
+    }
+  }
+
+  return Array.from(positions.values()).map((state) => {
+    state.position.items = Array.from(state.nets.values())
+      .map((item) => ({ ...item, delta: roundQuantity(item.delta) }))
+      .filter((item) => item.delta !== 0);
+    return state.position;
+  });
+}
+
+/**
+ * Units of each line item of an order that refunds and returns put back into stock, as
+ * reversed in its ledger, keyed by line item ID
+ */
+export async function getRestockedUnits(processedOrderId: string): Promise<Map<string, number>> {
+  const entries = await db.orderDeduction.findMany({
+    where: {
+      processedOrderId,
+      OR: [{ source: { startsWith: "refunds/create:" } }, { source: { startsWith: "returns/close:" } }],
+    },
+    select: { lineItemId: true, quantity: true },
+  });
+
+  const units = new Map<string, number>();
+  for (const entry of entries) {
+    units.set(entry.lineItemId, (units.get(entry.lineItemId) || 0) - entry.quantity);
+  }
+
+  return units;
+}
+
+/**
+ * Load the current ledger position of every line item of an order
+ */
+export async function getLedgerPositions(
+  processedOrderId: string
+): Promise<LedgerLineItemPosition[]> {
+  const entries = await db.orderDeduction.findMany({
+    where: { processedOrderId },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return buildLedgerPositions(entries);
+}
+
+/**
+ * Scale a line item's position to `units` line item units (negative to reverse).
+ * The units are carried by the first row at each location, matching how deductions are recorded.
+ */
+function scalePosition(
+  position: LedgerLineItemPosition,
+  units: number
+): LineItemDeduction[] {
+  const rows = position.items
+    .map((item) => ({
+      lineItemId: position.lineItemId,
+      variantId: position.variantId,
+      inventoryItemId: item.inventoryItemId,
+      locationId: item.locationId,
+      quantity: 0,
+      delta: roundQuantity((item.delta * units) / position.units),
+      ruleSnapshot: position.ruleSnapshot,
+    }))
+    .filter((row) => row.delta !== 0);
+
+  // Split the units across locations in proportion to the units held at each
+  const unitsByLocation = new Map<string, number>();
+  const locationIds = Array.from(new Set(rows.map((row) => row.locationId)));
+  let remaining = units;
+  locationIds.forEach((locationId, index) => {
+    const locationUnits = index === locationIds.length - 1
+      ? remaining
+      : Math.round(((position.unitsByLocation[locationId] || 0) * units) / position.units);
+    unitsByLocation.set(locationId, locationUnits);
+    remaining -= locationUnits;
+  });
+
+  const seenLocations = new Set<string>();
+  for (const row of rows) {
+    if (!seenLocations.has(row.locationId)) {
+      seenLocations.add(row.locationId);
+      row.quantity = unitsByLocation.get(row.locationId) || 0;
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Build the rows that reverse `units` of a line item's position in proportion
+ * to what was deducted per unit at each location
+ */
+export function buildProportionalReversal(
+  position: LedgerLineItemPosition,
+  units: number
+): LineItemDeduction[] {
+  const reversedUnits = Math.min(units, position.units);
+  if (reversedUnits <= 0) {
+    return [];
+  }
+
+  return scalePosition(position, -reversedUnits);
+}
+
+/**
+ * Build the rows that deduct `units` more of a line item, using the same per-unit
+ * deductions (and therefore the same rule snapshot) as what is already recorded
+ */
+export function buildProportionalDeduction(
+  position: LedgerLineItemPosition,
+  units: number
+): LineItemDeduction[] {
+  if (units <= 0 || position.units <= 0) {
+    return [];
+  }
+
+  return scalePosition(position, units);
+}
+
+/**
+ * Build the rows that move `units` of a line item's deductions from one location to
+ * another, e.g. when its fulfillment order is moved. Every inventory item deducted at
+ * the old location is returned there and deducted at the new one in the same proportion.
+ */
+export function buildLocationTransfer(
+  position: LedgerLineItemPosition,
+  fromLocationId: string,
+  toLocationId: string,
+  units: number
+): LineItemDeduction[] {
+  const unitsAtLocation = position.unitsByLocation[fromLocationId] || 0;
+  const movedUnits = Math.min(units, unitsAtLocation);
+
+  if (movedUnits <= 0 || fromLocationId === toLocationId) {
+    return [];
+  }
+
+  const rows: LineItemDeduction[] = [];
+
+  for (const item of position.items) {
+    if (item.locationId !== fromLocationId) {
+      continue;
+    }
+
+    const delta = roundQuantity((item.delta * movedUnits) / unitsAtLocation);
+    if (delta === 0) {
+      continue;
+    }
+
+    const isFirst = rows.length === 0;
+    const row = {
+      lineItemId: position.lineItemId,
+      variantId: position.variantId,
+      inventoryItemId: item.inventoryItemId,
+      ruleSnapshot: position.ruleSnapshot,
+    };
+    rows.push(
+      { ...row, locationId: fromLocationId, quantity: isFirst ? -movedUnits : 0, delta: -delta },
+      { ...row, locationId: toLocationId, quantity: isFirst ? movedUnits : 0, delta }
+    );
+  }
+
+  return rows;
+}
+
+/**
+ * Build the adjustments that undo everything recorded in an order's ledger.
+ *
+ * Rows are netted per line item, inventory item and location, so the reversal restores
+ * exactly what is still applied regardless of how the rules have changed since.
+ */
+export async function getLedgerReversal(
+  processedOrderId: string
+): Promise<InventoryAdjustment[]> {
+  const positions = await getLedgerPositions(processedOrderId);
+
+  return positions.flatMap((position) =>
+    position.items.map((item) => ({
+      inventoryItemId: item.inventoryItemId,
+      locationId: item.locationId,
+      delta: -item.delta,
+    }))
+  );
+}
@@ -0,0 +1,473 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { buildLineItemDeductions, getInventoryItemId } from "./order-deductions.server";
+import type { LineItemDeduction, OrderLineItem } from "./order-deductions.server";
+import type { LineItemProperty } from "./build-your-own.server";
+import { isBuildYourOwnRule } from "./build-your-own.server";
+import {
+  buildBundleMappings,
+  countBundles,
+  expandDeductionMappings,
+  parseDeductionMappings,
+} from "./bundle-expansion.server";
+import {
+  getComponentRemainders,
+  getRemainderKey,
+  getUnitSizes,
+  previewRemainders,
+  roundQuantity,
+} from "./component-remainders.server";
+import { getFallbackLocationId, resolveLineItemLocations } from "./fulfillment-locations.server";
+import type { LineItemLocations } from "./fulfillment-locations.server";
+import { getProcessedOrder, isDeductionEvent } from "./order-processing.server";
+import { getShopSettings } from "./shop-settings.server";
+import { getRulesInEffect } from "./rule-schedule.server";
+import { getRulesAtLocation } from "./location-rules.server";
+import { getVariantsById } from "./variant-catalog.server";
+import { applyOversellPolicy, getOversellPolicy } from "./oversell.server";
+
+/**
+ * A line of a hand-built cart to simulate
+ */
+export interface SimulatedCartItem {
+  variantId: string;
+  quantity: number;
+  properties?: LineItemProperty[];
+}
+
+export type SimulationInput =
+  | { orderId: string }
+  | { cart: SimulatedCartItem[]; locationId: string | null; at: Date };
+
+/**
+ * The net change to one inventory item at one location
+ */
+export interface SimulatedAdjustment {
+  inventoryItemId: string;
+  locationId: string;
+  variantId: string | null;
+  variantName: string;
+  sku: string | null;
+  delta: number; // Exact change, may be fractional
+  appliedDelta: number; // Whole units written to "available", the rest is carried as a remainder
+  available: number;
+  resultingAvailable: number;
+  substituteFor: string[]; // Components out of stock that this one is deducted instead of
+  shortfall: number; // Units needed beyond the available stock
+}
+
+/**
+ * The multipack inventory a calculated bundle would get after the simulated order
+ */
+export interface SimulatedBundleCount {
+  variantId: string;
+  locationId: string;
+  before: number;
+  after: number;
+}
+
+export interface SimulationResult {
+  orderName: string | null;
+  rulesAt: string; // ISO timestamp selecting the rules in effect
+  lineItems: Array<{ lineItemId: string; variantId: string; quantity: number; hasRule: boolean }>;
+  adjustments: SimulatedAdjustment[];
+  bundleCounts: SimulatedBundleCount[];
+  notes: string[];
+}
+
+interface OrderLineItemNode {
+  id: string;
+  quantity: number;
+  customAttributes: Array<{ key: string; value: string | null }>;
+  variant: { id: string; inventoryItem: { tracked: boolean } | null } | null;
+}
+
+interface InventoryLevelInfo {
+  variantId: string | null;
+  variantName: string;
+  sku: string | null;
+  available: number;
+}
+
+const ORDER_FIELDS = `#graphql
+  fragment SimulatedOrder on Order {
+    id
+    name
+    processedAt
+    lineItems(first: 250) {
+      edges {
+        node {
+          id
+          quantity
+          customAttributes {
+            key
+            value
+          }
+          variant {
+            id
+            inventoryItem {
+              tracked
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Load an order by numeric ID, GID or name (#1001)
+ */
+async function fetchOrder(admin: AdminApiContext, orderId: string) {
+  const trimmed = orderId.trim();
+
+  if (trimmed.startsWith("#")) {
+    const response = await admin.graphql(
+      `#graphql
+        ${ORDER_FIELDS}
+        query findSimulatedOrder($query: String!) {
+          orders(first: 1, query: $query) {
+            edges {
+              node {
+                ...SimulatedOrder
+              }
+            }
+          }
+        }
+      `,
+      { variables: { query: `name:${trimmed}` } }
+    );
+    const data = await response.json();
+    return data.data?.orders?.edges?.[0]?.node || null;
+  }
+
+  const response = await admin.graphql(
+    `#graphql
+      ${ORDER_FIELDS}
+      query getSimulatedOrder($id: ID!) {
+        order(id: $id) {
+          ...SimulatedOrder
+        }
+      }
+    `,
+    {
+      variables: {
+        id: trimmed.startsWith("gid://") ? trimmed : `gid://shopify/Order/${trimmed}`,
+      },
+    }
+  );
+  const data = await response.json();
+  return data.data?.order || null;
+}
+
+/**
+ * Read the variant and available quantity of an inventory item at a location
+ */
+async function getInventoryLevelInfo(
+  admin: AdminApiContext,
+  inventoryItemId: string,
+  locationId: string
+): Promise<InventoryLevelInfo> {
+  const response = await admin.graphql(
+    `#graphql
+      query getSimulatedLevel($inventoryItemId: ID!, $locationId: ID!) {
+        inventoryItem(id: $inventoryItemId) {
+          sku
+          variant {
+            id
+            displayName
+          }
+          inventoryLevel(locationId: $locationId) {
+            quantities(names: ["available"]) {
+              name
+              quantity
+            }
+          }
+        }
+      }
+    `,
+    {
+      variables: {
+        inventoryItemId,
+        locationId,
+      },
+    }
+  );
+
+  const data = await response.json();
+  const inventoryItem = data.data?.inventoryItem;
+
+  return {
+    variantId: inventoryItem?.variant?.id || null,
+    variantName: inventoryItem?.variant?.displayName || inventoryItemId,
+    sku: inventoryItem?.sku || null,
+    available: inventoryItem?.inventoryLevel?.quantities?.[0]?.quantity || 0,
+  };
+}
+
+/**
+ * Work out what the paid handler would do for an existing order or a hand-built cart,
+ * without writing anything to Shopify, the ledger, remainders or ProcessedOrder.
+ *
+ * Returns the net per-location adjustments (with the whole units that would be applied now
+ * given the carried remainders), the resulting available stock, and the new inventory of
+ * calculated bundles whose components the order touches.
+ */
+export async function simulateOrderDeductions(
+  admin: AdminApiContext,
+  shop: string,
+  input: SimulationInput
+): Promise<{ error: string } | SimulationResult> {
+  const notes: string[] = [];
+  let orderName: string | null = null;
+  let rulesAt: Date;
+  let lineItems: OrderLineItem[];
+  let locations: LineItemLocations;
+
+  if ("orderId" in input) {
+    const order = await fetchOrder(admin, input.orderId);
+    if (!order) {
+      return { error: `Order ${input.orderId} not found` };
+    }
+
+    orderName = order.name;
+    rulesAt = new Date(order.processedAt);
+    lineItems = (order.lineItems.edges as Array<{ node: OrderLineItemNode }>)
+      .filter((edge) => edge.node.variant)
+      .map(({ node }) => ({
+        id: Number(node.id.split("/").pop()),
+        variant_id: Number(node.variant?.id.split("/").pop()),
+        quantity: node.quantity,
+        variant_inventory_management: node.variant?.inventoryItem?.tracked ? "shopify" : undefined,
+        properties: node.customAttributes.map((attribute) => ({
+          name: attribute.key,
+          value: attribute.value,
+        })),
+      }));
+
+    // Deducting at the order's fulfillment locations, like the paid handler
+    locations = await resolveLineItemLocations(
+      admin,
+      shop,
+      order.id,
+      lineItems.map((lineItem) => lineItem.id?.toString() || "")
+    );
+
+    const processedOrder = await getProcessedOrder(shop, order.id.split("/").pop());
+    if (processedOrder?.status === "failed" || processedOrder?.status === "pending") {
+      notes.push(
+        `${order.name}'s deduction on ${processedOrder.deductionTrigger} is ${processedOrder.status}; a retry would resume it.`
+      );
+    } else if (processedOrder) {
+      notes.push(
+        `${order.name} was already ${processedOrder.status === "reversed" ? "reversed" : "deducted"} on ${processedOrder.deductionTrigger}; the paid handler would skip it.`
+      );
+    }
+  } else {
+    rulesAt = input.at;
+    const cartVariants = new Map(
+      (await getVariantsById(admin, input.cart.map((item) => item.variantId))).map((variant) => [
+        variant.id,
+        variant,
+      ])
+    );
+
+    lineItems = input.cart.map((item, index) => ({
+      id: index + 1,
+      variant_id: Number(item.variantId.split("/").pop()),
+      quantity: item.quantity,
+      variant_inventory_management: cartVariants.get(item.variantId)?.tracked ? "shopify" : undefined,
+      properties: item.properties,
+    }));
+
+    // A cart has no fulfillment orders, so everything is deducted at one location
+    locations = {
+      allocations: new Map(),
+      fallbackLocationId: input.locationId || (await getFallbackLocationId(admin, shop)),
+    };
+  }
+
+  const { deductionTrigger, oversellPolicy } = await getShopSettings(shop);
+  if (!isDeductionEvent(deductionTrigger, "orders/paid")) {
+    notes.push(`This shop deducts on ${deductionTrigger}, so the deductions happen at fulfillment instead of payment.`);
+  }
+
+  const variantRules = await getRulesInEffect(shop, rulesAt);
+  const builtDeductions: LineItemDeduction[] = await buildLineItemDeductions(admin, variantRules, lineItems, locations, {
+    chooseSubstitutes: true,
+  });
+
+  const rulesByVariant = new Set(variantRules.map((rule) => rule.variantId));
+  const remainders = await getComponentRemainders(shop);
+
+  // Current stock of every inventory item the simulation reads, keyed like remainders
+  const levels = new Map<string, InventoryLevelInfo>();
+  const readLevel = async (inventoryItemId: string, locationId: string) => {
+    const key = getRemainderKey(inventoryItemId, locationId);
+    if (!levels.has(key)) {
+      levels.set(key, await getInventoryLevelInfo(admin, inventoryItemId, locationId));
+    }
+    return levels.get(key) as InventoryLevelInfo;
+  };
+
+  // Apply the oversell policy like the order paid handler would
+  const stock = new Map<string, number>();
+  for (const deduction of builtDeductions) {
+    const key = getRemainderKey(deduction.inventoryItemId, deduction.locationId);
+    if (deduction.delta < 0 && !stock.has(key)) {
+      const level = await readLevel(deduction.inventoryItemId, deduction.locationId);
+      stock.set(key, roundQuantity(level.available + (remainders.get(key) || 0)));
+    }
+  }
+  const rulesMap = new Map(variantRules.map((rule) => [rule.variantId, rule]));
+  const { deductions, shortfalls } = applyOversellPolicy(builtDeductions, stock, (variantId) =>
+    getOversellPolicy(rulesMap.get(variantId), oversellPolicy)
+  );
+
+  if (shortfalls.length > 0) {
+    notes.push(
+      shortfalls.some((shortfall) => shortfall.policy === "clamp_and_alert")
+        ? "Some components would run out. The shortfall would be recorded and the order tagged as oversold."
+        : "Some components would run out. The shortfall would be recorded."
+    );
+  }
+
+  const preview = previewRemainders(deductions, remainders, await getUnitSizes(shop));
+
+  // Names of the components that substitutes would be deducted for
+  const substitutedVariants = new Map(
+    (
+      await getVariantsById(
+        admin,
+        deductions.flatMap((deduction) => (deduction.substituteForVariantId ? [deduction.substituteForVariantId] : []))
+      )
+    ).map((variant) => [variant.id, `${variant.productTitle} - ${variant.title}`])
+  );
+
+  const adjustments: SimulatedAdjustment[] = [];
+  for (const adjustment of preview.adjustments) {
+    const level = await readLevel(adjustment.inventoryItemId, adjustment.locationId);
+    const itemDeductions = deductions.filter(
+      (deduction) =>
+        deduction.inventoryItemId === adjustment.inventoryItemId &&
+        deduction.locationId === adjustment.locationId
+    );
+    const delta = roundQuantity(itemDeductions.reduce((sum, deduction) => sum + deduction.delta, 0));
+    const substituteFor = Array.from(
+      new Set(
+        itemDeductions.flatMap((deduction) =>
+          deduction.substituteForVariantId
+            ? [substitutedVariants.get(deduction.substituteForVariantId) || deduction.substituteForVariantId]
+            : []
+        )
+      )
+    );
+
+    adjustments.push({
+      inventoryItemId: adjustment.inventoryItemId,
+      locationId: adjustment.locationId,
+      variantId: level.variantId,
+      variantName: level.variantName,
+      sku: level.sku,
+      delta,
+      appliedDelta: adjustment.delta,
+      available: level.available,
+      resultingAvailable: level.available + adjustment.delta,
+      substituteFor,
+      shortfall: roundQuantity(
+        shortfalls
+          .filter(
+            (shortfall) =>
+              shortfall.inventoryItemId === adjustment.inventoryItemId &&
+              shortfall.locationId === adjustment.locationId
+          )
+          .reduce((sum, shortfall) => sum + shortfall.shortfall, 0)
+      ),
+    });
+  }
+
+  // Recount the calculated bundles built from the touched components, at the touched locations
+  const touched = new Map(
+    adjustments.map((adjustment) => [getRemainderKey(adjustment.inventoryItemId, adjustment.locationId), adjustment])
+  );
+  const touchedLocations = Array.from(new Set(adjustments.map((adjustment) => adjustment.locationId)));
+  const inventoryItemIds = new Map<string, string | null>();
+  const bundleCounts: SimulatedBundleCount[] = [];
+
+  for (const locationId of touchedLocations) {
+    // Bundles are counted with the mappings that apply at the location
+    const locationRules = getRulesAtLocation(variantRules, locationId);
+    const bundleMappings = buildBundleMappings(locationRules);
+
+    for (const rule of locationRules) {
+      const mappings = parseDeductionMappings(rule.deductionMappings);
+      if (
+        !mappings ||
+        isBuildYourOwnRule(rule) ||
+        !rule.calculateInventoryForSelfMapping ||
+        mappings.some((mapping) => mapping.targetVariantId === rule.variantId)
+      ) {
+        continue;
+      }
+
+      const components = expandDeductionMappings(rule.variantId, mappings, bundleMappings);
+      const candidateIds = components.flatMap((component) => [
+        component.targetVariantId,
+        ...(component.substitutes || []),
+      ]);
+      for (const candidateId of candidateIds) {
+        if (!inventoryItemIds.has(candidateId)) {
+          inventoryItemIds.set(candidateId, await getInventoryItemId(admin, candidateId));
+        }
+      }
+
+      const isAffected = candidateIds.some((candidateId) => {
+        const inventoryItemId = inventoryItemIds.get(candidateId);
+        return inventoryItemId && touched.has(getRemainderKey(inventoryItemId, locationId));
+      });
+      if (!isAffected) {
+        continue;
+      }
+
+      // Stock of every component and substitute before and after the order, keyed by variant ID
+      const before = new Map<string, number>();
+      const after = new Map<string, number>();
+      for (const candidateId of candidateIds) {
+        const inventoryItemId = inventoryItemIds.get(candidateId);
+        if (!inventoryItemId) {
+          continue;
+        }
+
+        const key = getRemainderKey(inventoryItemId, locationId);
+        const level = await readLevel(inventoryItemId, locationId);
+        const appliedDelta = touched.get(key)?.appliedDelta || 0;
+
+        before.set(candidateId, roundQuantity(level.available + (remainders.get(key) || 0)));
+        after.set(candidateId, roundQuantity(level.available + appliedDelta + (preview.remainders.get(key) || 0)));
+      }
+
+      bundleCounts.push({
+        variantId: rule.variantId,
+        locationId,
+        before: countBundles(components, before),
+        after: countBundles(components, after),
+      });
+    }
+  }
+
+  return {
+    orderName,
+    rulesAt: rulesAt.toISOString(),
+    lineItems: lineItems.map((lineItem) => {
+      const variantId = `gid://shopify/ProductVariant/${lineItem.variant_id}`;
+      return {
+        lineItemId: lineItem.id?.toString() || "",
+        variantId,
+        quantity: lineItem.quantity,
+        hasRule: rulesByVariant.has(variantId) && lineItem.variant_inventory_management === "shopify",
+      };
+    }),
+    adjustments,
+    bundleCounts,
+    notes,
+  };
+}
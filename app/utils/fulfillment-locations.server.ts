@@ -0,0 +1,308 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { getAllActiveLocations } from "./inventory-calculation.server";
+import { getShopSettings } from "./shop-settings.server";
+
+/**
+ * Units of a line item held by the fulfillment order at one location
+ */
+export interface LineItemAllocation {
+  locationId: string;
+  quantity: number;
+}
+
+/**
+ * Where each line item of an order is deducted from
+ */
+export interface LineItemLocations {
+  allocations: Map<string, LineItemAllocation[]>;
+  fallbackLocationId: string | null;
+}
+
+interface FulfillmentOrderLineItemsPage {
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  edges: Array<{
+    node: {
+      totalQuantity: number;
+      lineItem: { id: string };
+    };
+  }>;
+}
+
+interface FulfillmentOrderNode {
+  id: string;
+  status: string;
+  assignedLocation?: { location?: { id: string } | null } | null;
+  lineItems: FulfillmentOrderLineItemsPage;
+}
+
+interface FulfillmentOrdersPage {
+  pageInfo: { hasNextPage: boolean; endCursor: string | null };
+  edges: Array<{ node: FulfillmentOrderNode }>;
+}
+
+/**
+ * Load the remaining pages of a fulfillment order's line items
+ */
+async function getRemainingFulfillmentOrderLineItems(
+  admin: AdminApiContext,
+  fulfillmentOrderId: string,
+  after: string | null
+): Promise<FulfillmentOrderLineItemsPage["edges"]> {
+  const edges: FulfillmentOrderLineItemsPage["edges"] = [];
+  let cursor = after;
+
+  while (cursor) {
+    const response = await admin.graphql(
+      `#graphql
+        query getFulfillmentOrderLineItems($id: ID!, $after: String) {
+          fulfillmentOrder(id: $id) {
+            lineItems(first: 100, after: $after) {
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
+              edges {
+                node {
+                  totalQuantity
+                  lineItem {
+                    id
+                  }
+                }
+              }
+            }
+          }
+        }
+      `,
+      {
+        variables: {
+          id: fulfillmentOrderId,
+          after: cursor,
+        },
+      }
+    );
+
+    const data = await response.json();
+    const page: FulfillmentOrderLineItemsPage | undefined =
+      data.data?.fulfillmentOrder?.lineItems;
+
+    if (!page) {
+      break;
+    }
+
+    edges.push(...page.edges);
+    cursor = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+  }
+
+  return edges;
+}
+
+/**
+ * Map every line item of an order to the locations of the fulfillment orders that hold it.
+ *
+ * Walks all fulfillment orders and all of their line items, so orders split across
+ * warehouses route each line item (or each part of a split line item) to its own location.
+ * Keys are numeric line item IDs, matching the webhook payloads.
+ */
+export async function getLineItemAllocations(
+  admin: AdminApiContext,
+  orderGid: string
+): Promise<Map<string, LineItemAllocation[]>> {
+  const allocations = new Map<string, LineItemAllocation[]>();
+  let after: string | null = null;
+
+  do {
+    const response = await admin.graphql(
+      `#graphql
+        query getOrderFulfillmentOrders($id: ID!, $after: String) {
+          order(id: $id) {
+            id
+            fulfillmentOrders(first: 50, after: $after) {
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
+              edges {
+                node {
+                  id
+                  status
+                  assignedLocation {
+                    location {
+                      id
+                    }
+                  }
+                  lineItems(first: 100) {
+                    pageInfo {
+                      hasNextPage
+                      endCursor
+                    }
+                    edges {
+                      node {
+                        totalQuantity
+                        lineItem {
+                          id
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      `,
+      {
+        variables: {
+          id: orderGid,
+          after,
+        },
+      }
+    );
+
+    const data: {
+      data?: { order?: { fulfillmentOrders?: FulfillmentOrdersPage } | null };
+    } = await response.json();
+    const fulfillmentOrders = data.data?.order?.fulfillmentOrders;
+
+    if (!fulfillmentOrders) {
+      console.log("Order data:", JSON.stringify(data, null, 2));
+      break;
+    }
+
+    for (const { node } of fulfillmentOrders.edges) {
+      const locationId = node.assignedLocation?.location?.id;
+
+      if (!locationId || node.status === "CANCELLED") {
+        continue;
+      }
+
+      const lineItemEdges = [...node.lineItems.edges];
+      if (node.lineItems.pageInfo.hasNextPage) {
+        lineItemEdges.push(
+          ...(await getRemainingFulfillmentOrderLineItems(
+            admin,
+            node.id,
+            node.lineItems.pageInfo.endCursor
+          ))
+        );
+      }
+
+      for (const { node: fulfillmentLineItem } of lineItemEdges) {
+        if (fulfillmentLineItem.totalQuantity <= 0) {
+          continue;
+        }
+
+        const lineItemId = fulfillmentLineItem.lineItem.id.split("/").pop() || "";
+        const lineItemAllocations = allocations.get(lineItemId) || [];
+        const existing = lineItemAllocations.find((allocation) => allocation.locationId === locationId);
+
+        if (existing) {
+          existing.quantity += fulfillmentLineItem.totalQuantity;
+        } else {
+          lineItemAllocations.push({ locationId, quantity: fulfillmentLineItem.totalQuantity });
+        }
+        allocations.set(lineItemId, lineItemAllocations);
+      }
+    }
+
+    after = fulfillmentOrders.pageInfo.hasNextPage ? fulfillmentOrders.pageInfo.endCursor : null;
+  } while (after);
+
+  return allocations;
+}
+
+/**
+ * Pick the location to use for line items without a fulfillment location
+ * (e.g. subscription orders whose fulfillment orders are SCHEDULED or not yet created).
+ *
+ * Uses the first active location in the shop's configured priority list, or the shop's
+ * first active location when no priority list is configured.
+ */
+export async function getFallbackLocationId(
+  admin: AdminApiContext,
+  shop: string
+): Promise<string | null> {
+  const [settings, locations] = await Promise.all([
+    getShopSettings(shop),
+    getAllActiveLocations(admin),
+  ]);
+
+  const activeLocationIds = new Set(locations.map((location) => location.id));
+
+  for (const locationId of settings.locationPriority) {
+    if (activeLocationIds.has(locationId)) {
+      return locationId;
+    }
+  }
+
+  if (settings.locationPriority.length > 0) {
+    console.log(`None of the prioritized locations are active for shop ${shop}`);
+    return null;
+  }
+
+  return locations[0]?.id || null;
+}
+
+/**
+ * Resolve the deduction locations for an order's line items, only looking up the
+ * fallback location when some line item isn't held by any fulfillment order
+ */
+export async function resolveLineItemLocations(
+  admin: AdminApiContext,
+  shop: string,
+  orderGid: string,
+  lineItemIds: string[]
+): Promise<LineItemLocations> {
+  const allocations = await getLineItemAllocations(admin, orderGid);
+  let fallbackLocationId: string | null = null;
+
+  if (lineItemIds.some((lineItemId) => !allocations.has(lineItemId))) {
+    console.log("No fulfillment location found for some line items, using fallback location...");
+    fallbackLocationId = await getFallbackLocationId(admin, shop);
+    if (fallbackLocationId) {
+      console.log(`Using fallback location: ${fallbackLocationId}`);
+    }
+  }
+
+  return { allocations, fallbackLocationId };
+}
+
+/**
+ * Split a line item's quantity across its fulfillment locations.
+ *
+ * Units not covered by a fulfillment order go to the first allocation, or to the
+ * fallback location when the line item has no fulfillment order at all.
+ */
+export function allocateLineItemQuantity(
+  lineItemId: string,
+  quantity: number,
+  locations: LineItemLocations
+): LineItemAllocation[] {
+  const lineItemAllocations = locations.allocations.get(lineItemId);
+
+  if (!lineItemAllocations || lineItemAllocations.length === 0) {
+    return locations.fallbackLocationId
+      ? [{ locationId: locations.fallbackLocationId, quantity }]
+      : [];
+  }
+
+  const result: LineItemAllocation[] = [];
+  let remaining = quantity;
+
+  for (const allocation of lineItemAllocations) {
+    const allocated = Math.min(allocation.quantity, remaining);
+    if (allocated > 0) {
+      result.push({ locationId: allocation.locationId, quantity: allocated });
+      remaining -= allocated;
+    }
+  }
+
+  if (remaining > 0) {
+    if (result.length > 0) {
+      result[0].quantity += remaining;
+    } else {
+      result.push({ locationId: lineItemAllocations[0].locationId, quantity: remaining });
+    }
+  }
+
+  return result;
+}
@@ -1,21 +1,42 @@
 import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
-import db from "../db.server";
-
-interface DeductionMapping {
-  targetVariantId: string;
-  multiplier: number;
-}
-
-interface Location {
+import { setInventoryQuantities } from "./inventory-write.server";
+import type { InventoryQuantity } from "./inventory-write.server";
+import {
+  buildBundleMappings,
+  countBundles,
+  expandDeductionMappings,
+  parseDeductionMappings,
+} from "./bundle-expansion.server";
+import type { DeductionMapping } from "./bundle-expansion.server";
+import { getRuleAtLocation, getRulesAtLocation } from "./location-rules.server";
+import { isBuildYourOwnRule } from "./build-your-own.server";
+import {
+  getComponentRemainders,
+  getRemainderKey,
+  roundQuantity,
+} from "./component-remainders.server";
+import { getRulesInEffect } from "./rule-schedule.server";
+import { findDependentBundles } from "./bundle-dependencies.server";
+import { createAdminClient } from "./admin-client.server";
+
+export interface Location {
   id: string;
   isActive: boolean;
   name: string;
 }
 
+/**
+ * Narrows a calculation down to the bundles stock changes can have affected
+ */
+export interface CalculationScope {
+  inventoryItemIds?: string[]; // Only bundles made from these inventory items; every bundle when missing
+  locationIds?: string[]; // Only at these locations; every active location when missing
+}
+
 /**
  * Get all active locations for a shop
  */
-async function getAllActiveLocations(
+export async function getAllActiveLocations(
   admin: AdminApiContext
 ): Promise<Location[]> {
   const response = await admin.graphql(
@@ -43,52 +64,86 @@ async function getAllActiveLocations(
   return locations;
 }
 
+// IDs per batched nodes query
+const NODES_PAGE_SIZE = 250;
+
 /**
- * Get available inventory quantity for a variant at a specific location
+ * A bundle variant to count at a location, from its stocked components
  */
-async function getVariantInventory(
+interface BundlePlan {
+  variantId: string;
+  location: Location;
+  components: DeductionMapping[];
+}
+
+/**
+ * Look up the inventory item of each variant in batched nodes queries, keyed by variant ID.
+ * Variants that don't exist are left out.
+ */
+async function getInventoryItemIds(
   admin: AdminApiContext,
-  variantId: string,
-  locationId: string
-): Promise<number> {
-  try {
-    // First get the variant to find its inventory item
-    const variantResponse = await admin.graphql(
+  variantIds: string[]
+): Promise<Map<string, string>> {
+  const ids = Array.from(new Set(variantIds));
+  const inventoryItemIds = new Map<string, string>();
+
+  for (let start = 0; start < ids.length; start += NODES_PAGE_SIZE) {
+    const response = await admin.graphql(
       `#graphql
-        query getVariant($id: ID!) {
-          productVariant(id: $id) {
-            id
-            inventoryItem {
+        query getVariantInventoryItems($ids: [ID!]!) {
+          nodes(ids: $ids) {
+            ... on ProductVariant {
               id
+              inventoryItem {
+                id
+              }
             }
           }
         }
       `,
       {
         variables: {
-          id: variantId,
+          ids: ids.slice(start, start + NODES_PAGE_SIZE),
         },
       }
     );
 
-    const variantData = await variantResponse.json();
-    const inventoryItemId =
-      variantData.data?.productVariant?.inventoryItem?.id;
-
-    if (!inventoryItemId) {
-      console.log(`No inventory item found for variant ${variantId}`);
-      return 0;
+    const data = await response.json();
+    const nodes: Array<{ id?: string; inventoryItem?: { id: string } | null } | null> = data.data?.nodes || [];
+    for (const node of nodes) {
+      if (node?.id && node.inventoryItem?.id) {
+        inventoryItemIds.set(node.id, node.inventoryItem.id);
+      }
     }
+  }
 
-    // Get inventory level at the location
-    const levelResponse = await admin.graphql(
+  return inventoryItemIds;
+}
+
+/**
+ * Read the available quantity of inventory items at a location in batched nodes queries,
+ * keyed by inventory item ID. Items not stocked at the location are left out.
+ */
+async function getAvailableAtLocation(
+  admin: AdminApiContext,
+  inventoryItemIds: string[],
+  locationId: string
+): Promise<Map<string, number>> {
+  const ids = Array.from(new Set(inventoryItemIds));
+  const available = new Map<string, number>();
+
+  for (let start = 0; start < ids.length; start += NODES_PAGE_SIZE) {
+    const response = await admin.graphql(
       `#graphql
-        query getInventoryLevel($inventoryItemId: ID!, $locationId: ID!) {
-          inventoryItem(id: $inventoryItemId) {
-            inventoryLevel(locationId: $locationId) {
-              quantities(names: ["available"]) {
-                name
-                quantity
+        query getInventoryLevelsAtLocation($ids: [ID!]!, $locationId: ID!) {
+          nodes(ids: $ids) {
+            ... on InventoryItem {
+              id
+              inventoryLevel(locationId: $locationId) {
+                quantities(names: ["available"]) {
+                  name
+                  quantity
+                }
               }
             }
           }
@@ -96,245 +151,196 @@ async function getVariantInventory(
       `,
       {
         variables: {
-          inventoryItemId,
+          ids: ids.slice(start, start + NODES_PAGE_SIZE),
           locationId,
         },
       }
     );
 
-    const levelData = await levelResponse.json();
-    const quantity =
-      levelData.data?.inventoryItem?.inventoryLevel?.quantities?.[0]
-        ?.quantity || 0;
-
-    return quantity;
-  } catch (error) {
-    console.error(
-      `Error getting inventory for variant ${variantId} at location ${locationId}:`,
-      error
-    );
-    return 0;
+    const data = await response.json();
+    const nodes: Array<{
+      id?: string;
+      inventoryLevel?: { quantities: Array<{ name: string; quantity: number }> } | null;
+    } | null> = data.data?.nodes || [];
+    for (const node of nodes) {
+      if (node?.id && node.inventoryLevel) {
+        available.set(node.id, node.inventoryLevel.quantities[0]?.quantity || 0);
+      }
+    }
   }
+
+  return available;
 }
 
 /**
- * Update variant inventory at a specific location
+ * Count the bundles of each plan at a location from one batched read of its stock, and set
+ * the counts that changed in one inventorySetQuantities call
  */
-async function updateVariantInventory(
+async function updateBundlesAtLocation(
   admin: AdminApiContext,
-  variantId: string,
-  locationId: string,
-  quantity: number
+  location: Location,
+  plans: BundlePlan[],
+  inventoryItemIds: Map<string, string>,
+  remainders: Map<string, number>
 ): Promise<boolean> {
-  try {
-    // Get the variant to find its inventory item
-    const variantResponse = await admin.graphql(
-      `#graphql
-        query getVariant($id: ID!) {
-          productVariant(id: $id) {
-            id
-            inventoryItem {
-              id
-            }
-          }
-        }
-      `,
-      {
-        variables: {
-          id: variantId,
-        },
-      }
-    );
+  const available = await getAvailableAtLocation(
+    admin,
+    plans.flatMap((plan) =>
+      [
+        plan.variantId,
+        ...plan.components.flatMap((component) => [component.targetVariantId, ...(component.substitutes || [])]),
+      ].flatMap((variantId) => inventoryItemIds.get(variantId) || [])
+    ),
+    location.id
+  );
 
-    const variantData = await variantResponse.json();
-    const inventoryItemId =
-      variantData.data?.productVariant?.inventoryItem?.id;
+  const quantities: InventoryQuantity[] = [];
 
-    if (!inventoryItemId) {
-      console.log(`No inventory item found for variant ${variantId}`);
-      return false;
+  for (const plan of plans) {
+    const bundleInventoryItemId = inventoryItemIds.get(plan.variantId);
+    if (!bundleInventoryItemId) {
+      console.log(`No inventory item found for variant ${plan.variantId}`);
+      continue;
     }
 
-    // Get current quantity
-    const levelResponse = await admin.graphql(
-      `#graphql
-        query getInventoryLevel($inventoryItemId: ID!, $locationId: ID!) {
-          inventoryItem(id: $inventoryItemId) {
-            inventoryLevel(locationId: $locationId) {
-              id
-              quantities(names: ["available"]) {
-                name
-                quantity
-              }
-            }
-          }
-        }
-      `,
-      {
-        variables: {
-          inventoryItemId,
-          locationId,
-        },
-      }
-    );
-
-    const levelData = await levelResponse.json();
-    const currentQuantity =
-      levelData.data?.inventoryItem?.inventoryLevel?.quantities?.[0]
-        ?.quantity || 0;
+    const current = available.get(bundleInventoryItemId);
+    if (current === undefined) {
+      console.log(`Variant ${plan.variantId} is not stocked at location ${location.name}, skipping`);
+      continue;
+    }
 
-    // Set the new quantity
-    const setQuantitiesResponse = await admin.graphql(
-      `#graphql
-        mutation setInventoryQuantities($input: InventorySetQuantitiesInput!) {
-          inventorySetQuantities(input: $input) {
-            inventoryAdjustmentGroup {
-              id
-            }
-            userErrors {
-              field
-              message
-            }
-          }
-        }
-      `,
-      {
-        variables: {
-          input: {
-            name: "available",
-            reason: "correction",
-            quantities: [
-              {
-                inventoryItemId,
-                locationId,
-                quantity: Math.max(0, quantity),
-                compareQuantity: currentQuantity,
-              },
-            ],
-          },
-        },
+    // Stock of every component and substitute, including the fractional remainder not yet
+    // applied to it; components without an inventory item count as out of stock
+    const availableQuantities = new Map<string, number>();
+    for (const component of plan.components) {
+      for (const candidateId of [component.targetVariantId, ...(component.substitutes || [])]) {
+        const inventoryItemId = inventoryItemIds.get(candidateId);
+        availableQuantities.set(
+          candidateId,
+          inventoryItemId
+            ? roundQuantity(
+                (available.get(inventoryItemId) || 0) +
+                  (remainders.get(getRemainderKey(inventoryItemId, location.id)) || 0)
+              )
+            : 0
+        );
       }
-    );
+    }
 
-    const setQuantitiesData = await setQuantitiesResponse.json();
+    // floor(available / multiplier) per component, with the same rounding as fractional
+    // deductions; the bottleneck component sets the count
+    const bundleCount = Math.max(0, countBundles(plan.components, availableQuantities));
 
-    if (
-      setQuantitiesData.data?.inventorySetQuantities?.userErrors?.length > 0
-    ) {
-      console.error(
-        "Inventory update errors:",
-        setQuantitiesData.data.inventorySetQuantities.userErrors
-      );
-      return false;
+    if (bundleCount === current) {
+      continue;
     }
 
-    return true;
-  } catch (error) {
-    console.error(
-      `Error updating inventory for variant ${variantId} at location ${locationId}:`,
-      error
+    console.log(
+      `Updating multipack inventory for variant ${plan.variantId} at location ${location.name}: ${current} → ${bundleCount} bundles`
     );
-    return false;
+    quantities.push({
+      inventoryItemId: bundleInventoryItemId,
+      locationId: location.id,
+      quantity: bundleCount,
+      compareQuantity: current,
+    });
   }
-}
 
-/**
- * Calculate bundles available for a single variant rule
- * Returns the minimum number of bundles that can be made from all target variants
- */
-async function calculateBundlesForVariant(
-  admin: AdminApiContext,
-  variantId: string,
-  deductionMappings: DeductionMapping[],
-  locationId: string
-): Promise<number> {
-  const bundleCounts: number[] = [];
-
-  for (const mapping of deductionMappings) {
-    const availableQuantity = await getVariantInventory(
-      admin,
-      mapping.targetVariantId,
-      locationId
-    );
-
-    // Calculate how many bundles can be made from this target variant
-    // floor(available / multiplier)
-    const bundles = Math.floor(availableQuantity / mapping.multiplier);
-    bundleCounts.push(bundles);
+  if (quantities.length === 0) {
+    return true;
   }
 
-  // Return the minimum (bottleneck variant)
-  if (bundleCounts.length === 0) {
-    return 0;
+  // Set the new quantities, retrying with a fresh read if stock changed in between
+  const result = await setInventoryQuantities(admin, quantities);
+
+  if (result.success) {
+    console.log(`Updated ${quantities.length} multipack variant(s) at location ${location.name}`);
+    return true;
   }
 
-  return Math.min(...bundleCounts);
+  console.error(
+    `Failed to update multipack inventory at location ${location.name}: ${
+      result.error || result.userErrors.map((userError) => userError.message).join(", ")
+    }`
+  );
+  return false;
 }
 
 /**
  * Main function to calculate and update multipack inventory for a shop
- * This calculates inventory for all variants with deduction mappings
+ * This calculates inventory for all variants with deduction mappings, or only for those
+ * within `scope` (e.g. the bundles made from components whose stock changed at a location).
+ *
+ * Stock is read in a few batched queries per location and bundles are counted in memory,
+ * then each location's changed counts are written in one inventorySetQuantities call.
+ *
+ * Returns false when a lookup or write failed, leaving some bundle counts as they were
+ * rather than counting them from stock that couldn't be read; errors are logged, not thrown.
  */
 export async function calculateMultipackInventory(
   admin: AdminApiContext,
-  shop: string
-): Promise<void> {
+  shop: string,
+  scope: CalculationScope = {}
+): Promise<boolean> {
+  // Calls wait for the shop's query cost budget and retry when throttled
+  admin = createAdminClient(admin, shop);
+
   try {
     console.log(`Calculating multipack inventory for shop: ${shop}`);
 
-    // Get all variant rules with deduction mappings for this shop
-    const variantRules = await db.variantRule.findMany({
-      where: {
-        shop,
-        deductionMappings: {
-          not: null,
-        },
-      },
-    });
+    // Get the variant rules in effect now, so scheduled compositions take over when their
+    // window starts and hand back when it ends. A rule with mappings only at some locations
+    // is kept too; getRuleAtLocation applies them below
+    const variantRules = (await getRulesInEffect(shop, new Date())).filter(
+      (rule) => rule.deductionMappings || rule.locationMappings
+    );
 
     if (variantRules.length === 0) {
       console.log(`No variant rules with deduction mappings found for shop: ${shop}`);
-      return;
+      return true;
+    }
+
+    // Only the bundles made from a changed component need counting again
+    let bundleVariantIds: Set<string> | null = null;
+    if (scope.inventoryItemIds) {
+      bundleVariantIds = new Set(await findDependentBundles(admin, variantRules, scope.inventoryItemIds));
+
+      if (bundleVariantIds.size === 0) {
+        console.log(`No bundles are made from inventory items ${scope.inventoryItemIds.join(", ")} in shop: ${shop}`);
+        return true;
+      }
     }
 
+    const remainders = await getComponentRemainders(shop);
+
     // Get all active locations
-    const locations = await getAllActiveLocations(admin);
+    const locations = (await getAllActiveLocations(admin)).filter(
+      (location) => !scope.locationIds || scope.locationIds.includes(location.id)
+    );
 
     if (locations.length === 0) {
       console.log(`No active locations found for shop: ${shop}`);
-      return;
+      return true;
     }
 
-    // Process each variant rule
-    for (const rule of variantRules) {
-      if (!rule.deductionMappings) {
-        continue;
-      }
+    // Rules overridden at a location count their bundles from that location's mappings
+    const locationBundleMappings = new Map(
+      locations.map((location) => [
+        location.id,
+        buildBundleMappings(getRulesAtLocation(variantRules, location.id)),
+      ])
+    );
 
-      let deductionMappings: DeductionMapping[];
-      try {
-        deductionMappings = JSON.parse(rule.deductionMappings);
-        if (!Array.isArray(deductionMappings) || deductionMappings.length === 0) {
-          continue;
-        }
-      } catch (error) {
-        console.error(
-          `Error parsing deduction mappings for variant ${rule.variantId}:`,
-          error
-        );
+    // Plan which bundles to count at which location, and from which components
+    const plans: BundlePlan[] = [];
+
+    for (const rule of variantRules) {
+      if (bundleVariantIds && !bundleVariantIds.has(rule.variantId)) {
         continue;
       }
 
-      // Check if variant has any mappings to itself
-      const hasAnySelfMapping = deductionMappings.some(
-        (mapping) => mapping.targetVariantId === rule.variantId
-      );
-
-      // Skip calculation if variant maps to itself (either all self-mapping or mixed)
-      if (hasAnySelfMapping) {
-        console.log(
-          `Skipping calculation for variant ${rule.variantId} - has mappings to itself`
-        );
+      // Build-your-own boxes depend on what each customer picks, so there is no fixed bundle count
+      if (isBuildYourOwnRule(rule)) {
         continue;
       }
 
@@ -347,51 +353,74 @@ export async function calculateMultipackInventory(
       }
       // Toggle is enabled, proceed with calculation
 
-      // Process each location
       for (const location of locations) {
-        try {
-          // Calculate how many bundles can be made
-          const bundleCount = await calculateBundlesForVariant(
-            admin,
-            rule.variantId,
-            deductionMappings,
-            location.id
+        const deductionMappings = parseDeductionMappings(getRuleAtLocation(rule, location.id).deductionMappings);
+
+        if (!deductionMappings) {
+          continue;
+        }
+
+        // Skip calculation if variant maps to itself (either all self-mapping or mixed)
+        if (deductionMappings.some((mapping) => mapping.targetVariantId === rule.variantId)) {
+          console.log(
+            `Skipping calculation for variant ${rule.variantId} at location ${location.name} - has mappings to itself`
           );
+          continue;
+        }
 
-          // Update the multipack variant inventory
-          const success = await updateVariantInventory(
-            admin,
+        // Nested bundles are counted from the stocked components at the bottom of their tree
+        plans.push({
+          variantId: rule.variantId,
+          location,
+          components: expandDeductionMappings(
             rule.variantId,
-            location.id,
-            bundleCount
-          );
+            deductionMappings,
+            locationBundleMappings.get(location.id) || new Map()
+          ),
+        });
+      }
+    }
 
-          if (success) {
-            console.log(
-              `Updated multipack inventory for variant ${rule.variantId} at location ${location.name}: ${bundleCount} bundles`
-            );
-          } else {
-            console.error(
-              `Failed to update multipack inventory for variant ${rule.variantId} at location ${location.name}`
-            );
-          }
-        } catch (error) {
-          console.error(
-            `Error processing variant ${rule.variantId} at location ${location.id}:`,
-            error
-          );
-          // Continue with next location
+    if (plans.length === 0) {
+      console.log(`No multipack variants to calculate for shop: ${shop}`);
+      return true;
+    }
+
+    const inventoryItemIds = await getInventoryItemIds(
+      admin,
+      plans.flatMap((plan) => [
+        plan.variantId,
+        ...plan.components.flatMap((component) => [component.targetVariantId, ...(component.substitutes || [])]),
+      ])
+    );
+
+    // Process each location
+    let completed = true;
+    for (const location of locations) {
+      const locationPlans = plans.filter((plan) => plan.location.id === location.id);
+      if (locationPlans.length === 0) {
+        continue;
+      }
+
+      try {
+        if (!(await updateBundlesAtLocation(admin, location, locationPlans, inventoryItemIds, remainders))) {
+          completed = false;
         }
+      } catch (error) {
+        console.error(`Error processing location ${location.id}:`, error);
+        completed = false;
+        // Continue with next location
       }
     }
 
     console.log(`Completed multipack inventory calculation for shop: ${shop}`);
+    return completed;
   } catch (error) {
     console.error(
       `Error calculating multipack inventory for shop ${shop}:`,
       error
     );
     // Don't throw - let callers handle gracefully
+    return false;
   }
 }
-
@@ -0,0 +1,361 @@
+import { randomUUID } from "node:crypto";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+
+export interface InventoryAdjustment {
+  inventoryItemId: string;
+  locationId: string;
+  delta: number;
+}
+
+export interface InventoryQuantity {
+  inventoryItemId: string;
+  locationId: string;
+  quantity: number;
+  compareQuantity?: number; // Quantity the caller just read, used instead of reading it again on the first attempt
+}
+
+export interface InventoryUserError {
+  field: string[] | null;
+  message: string;
+  code?: string | null;
+}
+
+export interface InventoryChange {
+  inventoryItemId: string;
+  locationId: string;
+  delta: number;
+  quantityAfterChange: number | null;
+}
+
+/**
+ * Outcome of an inventory write.
+ *
+ * `success` is false when Shopify rejected the write (see `userErrors`) or the request
+ * itself failed (see `error`). A rejected write changed no quantities. A request that failed
+ * without a response is `unconfirmed`: Shopify may still have applied it.
+ */
+export interface InventoryWriteResult {
+  success: boolean;
+  adjustmentGroupId: string | null;
+  changes: InventoryChange[];
+  userErrors: InventoryUserError[];
+  error?: string;
+  unconfirmed?: boolean;
+  attempts: number;
+}
+
+export interface InventoryWriteOptions {
+  reason?: string;
+  referenceDocumentUri?: string;
+  idempotencyKey?: string; // Sent with @idempotent, so resending the same write with the same key applies it once
+}
+
+// Number of times a set-style write is retried with a fresh read when the stock changed underneath it
+const MAX_SET_ATTEMPTS = 3;
+
+const STALE_COMPARE_QUANTITY_CODES = new Set(["COMPARE_QUANTITY_STALE", "CHANGE_FROM_QUANTITY_STALE"]);
+
+interface AdjustmentGroupChange {
+  name: string;
+  delta: number;
+  quantityAfterChange: number | null;
+  item?: { id: string } | null;
+  location?: { id: string } | null;
+}
+
+/**
+ * Normalize the changes returned with an inventoryAdjustmentGroup
+ */
+function toInventoryChanges(changes: AdjustmentGroupChange[] | undefined): InventoryChange[] {
+  return (changes || [])
+    .filter((change) => change.name === "available")
+    .map((change) => ({
+      inventoryItemId: change.item?.id || "",
+      locationId: change.location?.id || "",
+      delta: change.delta,
+      quantityAfterChange: change.quantityAfterChange,
+    }));
+}
+
+/**
+ * Consolidate adjustments by inventoryItemId + locationId to avoid duplicates
+ */
+export function consolidateAdjustments(
+  adjustments: InventoryAdjustment[]
+): InventoryAdjustment[] {
+  const consolidatedAdjustments = new Map<string, InventoryAdjustment>();
+
+  for (const adj of adjustments) {
+    const key = `${adj.inventoryItemId}:${adj.locationId}`;
+    const existing = consolidatedAdjustments.get(key);
+    if (existing) {
+      existing.delta += adj.delta;
+    } else {
+      consolidatedAdjustments.set(key, {
+        inventoryItemId: adj.inventoryItemId,
+        locationId: adj.locationId,
+        delta: adj.delta,
+      });
+    }
+  }
+
+  return Array.from(consolidatedAdjustments.values());
+}
+
+/**
+ * Apply relative changes to "available" quantities in a single inventoryAdjustQuantities call.
+ *
+ * Used for order-driven changes: a delta doesn't depend on the quantity read beforehand,
+ * so a sale landing at the same time can't make the write fail or be overwritten. Callers
+ * that may resend an unconfirmed write pass an idempotency key and reuse it when they do.
+ */
+export async function adjustInventoryQuantities(
+  admin: AdminApiContext,
+  adjustments: InventoryAdjustment[],
+  options: InventoryWriteOptions = {}
+): Promise<InventoryWriteResult> {
+  const changes = consolidateAdjustments(adjustments).filter((adj) => adj.delta !== 0);
+
+  if (changes.length === 0) {
+    return { success: true, adjustmentGroupId: null, changes: [], userErrors: [], attempts: 0 };
+  }
+
+  try {
+    const response = await admin.graphql(
+      `#graphql
+        mutation adjustInventoryQuantities($input: InventoryAdjustQuantitiesInput!, $idempotencyKey: String!) {
+          inventoryAdjustQuantities(input: $input) @idempotent(key: $idempotencyKey) {
+            inventoryAdjustmentGroup {
+              id
+              reason
+              changes {
+                name
+                delta
+                quantityAfterChange
+                item {
+                  id
+                }
+                location {
+                  id
+                }
+              }
+            }
+            userErrors {
+              field
+              message
+              code
+            }
+          }
+        }
+      `,
+      {
+        variables: {
+          input: {
+            name: "available",
+            reason: options.reason || "correction",
+            referenceDocumentUri: options.referenceDocumentUri,
+            changes,
+          },
+          idempotencyKey: options.idempotencyKey || randomUUID(),
+        },
+      }
+    );
+
+    const data = await response.json();
+    const payload = data.data?.inventoryAdjustQuantities;
+    const userErrors: InventoryUserError[] = payload?.userErrors || [];
+
+    if (userErrors.length > 0 || !payload) {
+      console.error("Inventory adjustment errors:", userErrors);
+      return {
+        success: false,
+        adjustmentGroupId: null,
+        changes: [],
+        userErrors,
+        error: payload ? undefined : "No data returned",
+        attempts: 1,
+      };
+    }
+
+    return {
+      success: true,
+      adjustmentGroupId: payload.inventoryAdjustmentGroup?.id || null,
+      changes: toInventoryChanges(payload.inventoryAdjustmentGroup?.changes),
+      userErrors: [],
+      attempts: 1,
+    };
+  } catch (error) {
+    console.error("Error adjusting inventory quantities:", error);
+    return {
+      success: false,
+      adjustmentGroupId: null,
+      changes: [],
+      userErrors: [],
+      error: error instanceof Error ? error.message : String(error),
+      unconfirmed: true,
+      attempts: 1,
+    };
+  }
+}
+
+/**
+ * Read the current "available" quantity of each inventory item at its location
+ */
+async function getAvailableQuantities(
+  admin: AdminApiContext,
+  quantities: InventoryQuantity[]
+): Promise<number[]> {
+  return Promise.all(
+    quantities.map(async (entry) => {
+      const levelResponse = await admin.graphql(
+        `#graphql
+          query getInventoryLevel($inventoryItemId: ID!, $locationId: ID!) {
+            inventoryItem(id: $inventoryItemId) {
+              inventoryLevel(locationId: $locationId) {
+                id
+                quantities(names: ["available"]) {
+                  name
+                  quantity
+                }
+              }
+            }
+          }
+        `,
+        {
+          variables: {
+            inventoryItemId: entry.inventoryItemId,
+            locationId: entry.locationId,
+          },
+        }
+      );
+
+      const levelData = await levelResponse.json();
+      return levelData.data?.inventoryItem?.inventoryLevel?.quantities?.[0]?.quantity || 0;
+    })
+  );
+}
+
+/**
+ * Set absolute "available" quantities with inventorySetQuantities.
+ *
+ * Each attempt reads the current quantities and sends them as compareQuantity; when
+ * Shopify reports that a quantity changed in between, the write is retried with a
+ * fresh read instead of being dropped. The first attempt skips the read when every
+ * quantity comes with the compareQuantity its caller read.
+ */
+export async function setInventoryQuantities(
+  admin: AdminApiContext,
+  quantities: InventoryQuantity[],
+  options: InventoryWriteOptions = {}
+): Promise<InventoryWriteResult> {
+  if (quantities.length === 0) {
+    return { success: true, adjustmentGroupId: null, changes: [], userErrors: [], attempts: 0 };
+  }
+
+  let userErrors: InventoryUserError[] = [];
+
+  for (let attempt = 1; attempt <= MAX_SET_ATTEMPTS; attempt++) {
+    try {
+      const currentQuantities =
+        attempt === 1 && quantities.every((entry) => entry.compareQuantity !== undefined)
+          ? quantities.map((entry) => entry.compareQuantity as number)
+          : await getAvailableQuantities(admin, quantities);
+
+      const response = await admin.graphql(
+        `#graphql
+          mutation setInventoryQuantities($input: InventorySetQuantitiesInput!) {
+            inventorySetQuantities(input: $input) {
+              inventoryAdjustmentGroup {
+                id
+                reason
+                changes {
+                  name
+                  delta
+                  quantityAfterChange
+                  item {
+                    id
+                  }
+                  location {
+                    id
+                  }
+                }
+              }
+              userErrors {
+                field
+                message
+                code
+              }
+            }
+          }
+        `,
+        {
+          variables: {
+            input: {
+              name: "available",
+              reason: options.reason || "correction",
+              referenceDocumentUri: options.referenceDocumentUri,
+              quantities: quantities.map((entry, index) => ({
+                inventoryItemId: entry.inventoryItemId,
+                locationId: entry.locationId,
+                quantity: entry.quantity,
+                compareQuantity: currentQuantities[index],
+              })),
+            },
+          },
+        }
+      );
+
+      const data = await response.json();
+      const payload = data.data?.inventorySetQuantities;
+      userErrors = payload?.userErrors || [];
+
+      if (payload && userErrors.length === 0) {
+        return {
+          success: true,
+          adjustmentGroupId: payload.inventoryAdjustmentGroup?.id || null,
+          changes: toInventoryChanges(payload.inventoryAdjustmentGroup?.changes),
+          userErrors: [],
+          attempts: attempt,
+        };
+      }
+
+      const isStale = userErrors.some((userError) =>
+        STALE_COMPARE_QUANTITY_CODES.has(userError.code || "")
+      );
+
+      if (!isStale) {
+        console.error("Inventory update errors:", userErrors);
+        return {
+          success: false,
+          adjustmentGroupId: null,
+          changes: [],
+          userErrors,
+          error: payload ? undefined : "No data returned",
+          attempts: attempt,
+        };
+      }
+
+      console.log(`Inventory changed during update (attempt ${attempt}/${MAX_SET_ATTEMPTS}), retrying with a fresh read`);
+    } catch (error) {
+      console.error("Error setting inventory quantities:", error);
+      return {
+        success: false,
+        adjustmentGroupId: null,
+        changes: [],
+        userErrors: [],
+        error: error instanceof Error ? error.message : String(error),
+        attempts: attempt,
+      };
+    }
+  }
+
+  console.error("Inventory update errors after retries:", userErrors);
+  return {
+    success: false,
+    adjustmentGroupId: null,
+    changes: [],
+    userErrors,
+    error: "Inventory kept changing during update",
+    attempts: MAX_SET_ATTEMPTS,
+  };
+}
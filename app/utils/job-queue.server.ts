@@ -0,0 +1,174 @@
+import { Prisma } from "@prisma/client";
+import type { BackgroundJob } from "@prisma/client";
+import db from "../db.server";
+
+export type JobStatus = "pending" | "running" | "completed" | "failed";
+
+// A running job whose worker hasn't finished it by then is assumed lost and run again
+export const JOB_LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Retry delays double from the base delay up to the maximum
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// Completed jobs are kept this long for troubleshooting
+const COMPLETED_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Queue a job for the background worker.
+ *
+ * Jobs queued for a webhook pass its delivery ID: Shopify redelivers a webhook with the same
+ * ID when it doesn't get a timely response, and a delivery that is already queued is skipped.
+ * Returns false when the job was already queued.
+ */
+export async function enqueueJob(
+  shop: string,
+  type: string,
+  payload: unknown,
+  webhookId?: string | null
+): Promise<boolean> {
+  const { count } = await db.backgroundJob.createMany({
+    data: [
+      {
+        shop,
+        type,
+        payload: JSON.stringify(payload ?? null),
+        webhookId: webhookId || null,
+      },
+    ],
+    skipDuplicates: true,
+  });
+
+  return count > 0;
+}
+
+// Due jobs looked at per claim; shops another worker is claiming for are passed over
+const CLAIM_CANDIDATES = 10;
+
+/**
+ * Condition of a job (aliased `job`) that is due, or whose worker stopped mid-attempt, and
+ * whose shop has no job running
+ */
+function claimableJob(staleBefore: Date): Prisma.Sql {
+  return Prisma.sql`
+    (
+      (job."status" = 'pending' AND job."runAt" <= NOW())
+      OR (job."status" = 'running' AND job."lockedAt" < ${staleBefore})
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM "BackgroundJob" AS running
+      WHERE running."shop" = job."shop"
+        AND running."id" <> job."id"
+        AND running."status" = 'running'
+        AND running."lockedAt" >= ${staleBefore}
+    )
+  `;
+}
+
+/**
+ * Claim the next job that is due, marking it as running and counting the attempt.
+ *
+ * Workers in several processes can claim concurrently. Claims are serialized per shop with
+ * a transaction-scoped advisory lock, and the shop's running jobs are checked again once it
+ * is held, so a shop never has two jobs running. Jobs run in order of `runAt`: a failed job
+ * is retried after its backoff, which can be after events of the shop that arrived later.
+ * Jobs whose worker stopped mid-attempt are claimed again once their lock times out.
+ */
+export async function claimNextJob(): Promise<BackgroundJob | null> {
+  const staleBefore = new Date(Date.now() - JOB_LOCK_TIMEOUT_MS);
+
+  return db.$transaction(async (tx) => {
+    const candidates = await tx.$queryRaw<Array<{ shop: string }>>`
+      SELECT job."shop" FROM "BackgroundJob" AS job
+      WHERE ${claimableJob(staleBefore)}
+      ORDER BY job."runAt" ASC, job."createdAt" ASC
+      LIMIT ${CLAIM_CANDIDATES}
+    `;
+
+    for (const shop of new Set(candidates.map((candidate) => candidate.shop))) {
+      const [{ locked }] = await tx.$queryRaw<Array<{ locked: boolean }>>`
+        SELECT pg_try_advisory_xact_lock(hashtext(${shop})) AS "locked"
+      `;
+      if (!locked) {
+        continue;
+      }
+
+      // Read again under the lock, seeing the claims other workers committed in the meantime
+      const jobs = await tx.$queryRaw<BackgroundJob[]>`
+        UPDATE "BackgroundJob"
+        SET "status" = 'running', "lockedAt" = NOW(), "attempts" = "attempts" + 1, "updatedAt" = NOW()
+        WHERE "id" = (
+          SELECT "id" FROM "BackgroundJob" AS job
+          WHERE job."shop" = ${shop} AND ${claimableJob(staleBefore)}
+          ORDER BY job."runAt" ASC, job."createdAt" ASC
+          LIMIT 1
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING *
+      `;
+
+      if (jobs[0]) {
+        return jobs[0];
+      }
+    }
+
+    return null;
+  });
+}
+
+/**
+ * Mark a job as done
+ */
+export async function completeJob(jobId: string): Promise<void> {
+  await db.backgroundJob.update({
+    where: { id: jobId },
+    data: {
+      status: "completed",
+      lockedAt: null,
+      lastError: null,
+      completedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Get the delay before retrying a job that failed its `attempts`-th attempt
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Record a failed attempt: schedule a retry with exponential backoff, or mark the job as
+ * failed once it has used all its attempts. Returns the job's new status.
+ */
+export async function failJob(job: BackgroundJob, error: unknown): Promise<JobStatus> {
+  const lastError = error instanceof Error ? error.stack || error.message : String(error);
+  const status: JobStatus = job.attempts >= job.maxAttempts ? "failed" : "pending";
+
+  await db.backgroundJob.update({
+    where: { id: job.id },
+    data: {
+      status,
+      lockedAt: null,
+      lastError,
+      runAt: status === "pending" ? new Date(Date.now() + getRetryDelayMs(job.attempts)) : job.runAt,
+    },
+  });
+
+  return status;
+}
+
+/**
+ * Delete completed jobs past their retention period. Failed jobs are kept.
+ */
+export async function pruneCompletedJobs(): Promise<number> {
+  const { count } = await db.backgroundJob.deleteMany({
+    where: {
+      status: "completed",
+      completedAt: { lt: new Date(Date.now() - COMPLETED_JOB_RETENTION_MS) },
+    },
+  });
+
+  return count;
+}
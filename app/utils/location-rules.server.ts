@@ -0,0 +1,90 @@
+import type { VariantRule } from "@prisma/client";
+import { buildBundleMappings, findBundleCycle, parseDeductionMappings } from "./bundle-expansion.server";
+import type { DeductionMapping } from "./bundle-expansion.server";
+
+type LocationRule = Pick<VariantRule, "deductionMappings" | "locationMappings">;
+
+/**
+ * Deduction mappings that replace a rule's own at some locations, keyed by location ID
+ */
+export type LocationMappings = Record<string, DeductionMapping[]>;
+
+/**
+ * Parse the location overrides stored on a variant rule.
+ * Returns an empty object when the rule has none or they can't be parsed.
+ */
+export function parseLocationMappings(locationMappings: string | null | undefined): LocationMappings {
+  if (!locationMappings) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(locationMappings);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      return {};
+    }
+
+    return Object.fromEntries(
+      Object.entries(parsed).filter(
+        (entry): entry is [string, DeductionMapping[]] => Array.isArray(entry[1]) && entry[1].length > 0
+      )
+    );
+  } catch (error) {
+    console.error(`Error parsing location mappings: ${error}`);
+    return {};
+  }
+}
+
+/**
+ * Get a rule as it applies at a location: overridden there, its deduction mappings are
+ * replaced by the location's, e.g. a 4-pack built from loose cans at a retail store while
+ * the warehouse ships sealed cases.
+ */
+export function getRuleAtLocation<T extends LocationRule>(rule: T, locationId: string): T {
+  const mappings = parseLocationMappings(rule.locationMappings)[locationId];
+  return mappings ? { ...rule, deductionMappings: JSON.stringify(mappings) } : rule;
+}
+
+/**
+ * Get the rules as they apply at a location
+ */
+export function getRulesAtLocation<T extends LocationRule>(rules: T[], locationId: string): T[] {
+  return rules.map((rule) => getRuleAtLocation(rule, locationId));
+}
+
+/**
+ * Get the locations any of the rules is overridden at
+ */
+export function getOverrideLocationIds(rules: LocationRule[]): string[] {
+  return Array.from(
+    new Set(rules.flatMap((rule) => Object.keys(parseLocationMappings(rule.locationMappings))))
+  );
+}
+
+/**
+ * Find a cycle in the bundle tree of a variant at any location, using `rule` as its (unsaved)
+ * mappings and the other rules as they apply at each location. `extraMappings` (e.g. the picks
+ * of a build-your-own box) apply everywhere.
+ *
+ * Returns the variant IDs along the first cycle found, or null when there is none.
+ */
+export function findLocationBundleCycle(
+  variantId: string,
+  rule: LocationRule,
+  otherRules: Array<Pick<VariantRule, "variantId"> & LocationRule>,
+  extraMappings: DeductionMapping[] = []
+): string[] | null {
+  for (const locationId of [null, ...getOverrideLocationIds([rule, ...otherRules])]) {
+    const locationRule = locationId ? getRuleAtLocation(rule, locationId) : rule;
+    const cycle = findBundleCycle(
+      variantId,
+      [...(parseDeductionMappings(locationRule.deductionMappings) || []), ...extraMappings],
+      buildBundleMappings(locationId ? getRulesAtLocation(otherRules, locationId) : otherRules)
+    );
+    if (cycle) {
+      return cycle;
+    }
+  }
+
+  return null;
+}
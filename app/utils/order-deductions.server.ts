@@ -0,0 +1,457 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import type { VariantRule } from "@prisma/client";
+import { allocateLineItemQuantity } from "./fulfillment-locations.server";
+import type { LineItemLocations } from "./fulfillment-locations.server";
+import type { InventoryAdjustment } from "./inventory-write.server";
+import { buildBundleMappings, expandDeductionMappings } from "./bundle-expansion.server";
+import { getRuleAtLocation, getRulesAtLocation } from "./location-rules.server";
+import { getRemainderKey, roundQuantity, roundToUnit } from "./component-remainders.server";
+import { getChosenComponentMappings, isBuildYourOwnRule } from "./build-your-own.server";
+import type { LineItemProperty } from "./build-your-own.server";
+import type { BundleMappings, DeductionMapping } from "./bundle-expansion.server";
+
+export interface OrderLineItem {
+  id?: number;
+  variant_id: number;
+  quantity: number;
+  variant_inventory_management?: string;
+  properties?: LineItemProperty[];
+}
+
+export interface OrderPayload {
+  id?: number;
+  admin_graphql_api_id?: string;
+  line_items?: OrderLineItem[];
+  fulfillment_status?: string;
+  processed_at?: string | null;
+  created_at?: string | null;
+}
+
+/**
+ * An inventory adjustment to a component, noting the mapped component it replaced
+ * when a substitute was deducted instead
+ */
+export interface ComponentAdjustment extends InventoryAdjustment {
+  substituteForVariantId?: string | null;
+}
+
+/**
+ * Stock of the components an order chooses substitutes from, keyed like remainders:
+ * what Shopify reports as available and what the order's earlier line items already deduct
+ */
+interface ComponentStock {
+  available: Map<string, number>;
+  pending: Map<string, number>;
+}
+
+/**
+ * A single inventory adjustment caused by applying a variant rule to a line item
+ */
+export interface LineItemDeduction extends ComponentAdjustment {
+  lineItemId: string;
+  variantId: string;
+  quantity: number;
+  ruleSnapshot: string | null;
+}
+
+/**
+ * A line item, or one of its components, that a deduction left out
+ */
+export interface SkippedLineItem {
+  lineItemId: string;
+  variantId: string;
+  reason: string;
+}
+
+/**
+ * Get the numeric order ID from an order webhook payload
+ */
+export function getOrderId(order: OrderPayload): string {
+  return order.id?.toString() || order.admin_graphql_api_id?.split('/').pop() || '';
+}
+
+/**
+ * Get the order GID from an order webhook payload
+ */
+export function getOrderGid(order: OrderPayload): string {
+  return order.admin_graphql_api_id || `gid://shopify/Order/${order.id}`;
+}
+
+/**
+ * Get the inventory item ID for a variant
+ */
+export async function getInventoryItemId(
+  admin: AdminApiContext,
+  variantId: string
+): Promise<string | null> {
+  const variantResponse = await admin.graphql(
+    `#graphql
+      query getVariant($id: ID!) {
+        productVariant(id: $id) {
+          id
+          inventoryItem {
+            id
+          }
+        }
+      }
+    `,
+    {
+      variables: {
+        id: variantId,
+      },
+    }
+  );
+
+  const variantData = await variantResponse.json();
+  return variantData.data?.productVariant?.inventoryItem?.id || null;
+}
+
+/**
+ * Get the available quantity of an inventory item at a location, net of what the order
+ * being built already deducts from it
+ */
+async function getComponentStock(
+  admin: AdminApiContext,
+  stock: ComponentStock,
+  inventoryItemId: string,
+  locationId: string
+): Promise<number> {
+  const key = getRemainderKey(inventoryItemId, locationId);
+
+  if (!stock.available.has(key)) {
+    const response = await admin.graphql(
+      `#graphql
+        query getComponentStock($inventoryItemId: ID!, $locationId: ID!) {
+          inventoryItem(id: $inventoryItemId) {
+            inventoryLevel(locationId: $locationId) {
+              quantities(names: ["available"]) {
+                name
+                quantity
+              }
+            }
+          }
+        }
+      `,
+      {
+        variables: {
+          inventoryItemId,
+          locationId,
+        },
+      }
+    );
+
+    const data = await response.json();
+    stock.available.set(key, data.data?.inventoryItem?.inventoryLevel?.quantities?.[0]?.quantity || 0);
+  }
+
+  return roundQuantity((stock.available.get(key) || 0) + (stock.pending.get(key) || 0));
+}
+
+/**
+ * Pick the variant to deduct a component from: the mapped target when it has enough stock at
+ * the location, otherwise the first substitute that does. When none has enough, the target is
+ * deducted and the oversell policy deals with the shortfall.
+ */
+async function chooseComponentVariant(
+  admin: AdminApiContext,
+  mapping: DeductionMapping,
+  needed: number,
+  locationId: string,
+  stock: ComponentStock | null
+): Promise<{ inventoryItemId: string | null; substituteForVariantId: string | null }> {
+  const targetInventoryItemId = await getInventoryItemId(admin, mapping.targetVariantId);
+
+  if (!stock || !mapping.substitutes || mapping.substitutes.length === 0) {
+    return { inventoryItemId: targetInventoryItemId, substituteForVariantId: null };
+  }
+
+  if (
+    targetInventoryItemId &&
+    (await getComponentStock(admin, stock, targetInventoryItemId, locationId)) >= needed
+  ) {
+    return { inventoryItemId: targetInventoryItemId, substituteForVariantId: null };
+  }
+
+  for (const substituteId of mapping.substitutes) {
+    const substituteInventoryItemId = await getInventoryItemId(admin, substituteId);
+    if (
+      substituteInventoryItemId &&
+      (await getComponentStock(admin, stock, substituteInventoryItemId, locationId)) >= needed
+    ) {
+      console.log(`Substituting ${substituteId} for ${mapping.targetVariantId} at ${locationId}`);
+      return { inventoryItemId: substituteInventoryItemId, substituteForVariantId: mapping.targetVariantId };
+    }
+  }
+
+  return { inventoryItemId: targetInventoryItemId, substituteForVariantId: null };
+}
+
+/**
+ * Serialize the rule fields that determine a deduction, so the ledger keeps
+ * a record of the configuration that was in effect when the order was processed.
+ * Nested bundles also record the stocked components they expanded to.
+ */
+function snapshotRule(rule: VariantRule, bundleMappings: BundleMappings): string {
+  const mappings = bundleMappings.get(rule.variantId);
+
+  return JSON.stringify({
+    type: rule.type,
+    multiplier: rule.multiplier,
+    varietyPackFlavorIds: rule.varietyPackFlavorIds,
+    deductionMappings: rule.deductionMappings,
+    choiceVariantIds: rule.choiceVariantIds,
+    choiceCount: rule.choiceCount,
+    quantityPerChoice: rule.quantityPerChoice,
+    components: mappings ? expandDeductionMappings(rule.variantId, mappings, bundleMappings) : undefined,
+  });
+}
+
+/**
+ * Apply a legacy 'multiplier' or 'variety_pack' rule to a line item
+ */
+async function buildLegacyDeductions(
+  admin: AdminApiContext,
+  rule: VariantRule,
+  quantity: number,
+  inventoryItemId: string,
+  locationId: string
+): Promise<InventoryAdjustment[]> {
+  const adjustments: InventoryAdjustment[] = [];
+
+  if (rule.type === "multiplier") {
+    const multiplier = rule.multiplier || 3;
+    const additionalDeduction = multiplier - 1;
+    adjustments.push({
+      inventoryItemId,
+      locationId,
+      delta: -(quantity * additionalDeduction),
+    });
+  } else if (rule.type === "variety_pack" && rule.varietyPackFlavorIds) {
+    try {
+      const flavorIds: string[] = JSON.parse(rule.varietyPackFlavorIds);
+      for (const flavorId of flavorIds) {
+        const flavorInventoryItemId = await getInventoryItemId(admin, flavorId);
+        if (flavorInventoryItemId) {
+          adjustments.push({
+            inventoryItemId: flavorInventoryItemId,
+            locationId,
+            delta: -quantity,
+          });
+        }
+      }
+      adjustments.push({
+        inventoryItemId,
+        locationId,
+        delta: quantity,
+      });
+    } catch (parseError) {
+      console.error(`Error parsing variety pack flavor IDs: ${parseError}`);
+    }
+  }
+
+  return adjustments;
+}
+
+/**
+ * Compute the inventory adjustments for one line item quantity at one location.
+ * Components with substitutes are only swapped when `stock` is given. Target variants
+ * without an inventory item are added to `missingTargets`, and build-your-own picks that
+ * weren't deducted as picked to `invalidPicks`.
+ */
+async function buildRuleAdjustments(
+  admin: AdminApiContext,
+  rule: VariantRule,
+  bundleMappings: BundleMappings,
+  quantity: number,
+  inventoryItemId: string,
+  locationId: string,
+  properties: LineItemProperty[] | undefined,
+  stock: ComponentStock | null,
+  missingTargets: string[] = [],
+  invalidPicks: string[] = []
+): Promise<ComponentAdjustment[]> {
+  // Build-your-own boxes deduct the customer's picks on top of any fixed components
+  const chosenMappings = isBuildYourOwnRule(rule)
+    ? getChosenComponentMappings(rule, properties, invalidPicks)
+    : [];
+
+  // Check if new deduction mappings format exists
+  if (!rule.deductionMappings && !isBuildYourOwnRule(rule)) {
+    return buildLegacyDeductions(admin, rule, quantity, inventoryItemId, locationId);
+  }
+
+  const adjustments: ComponentAdjustment[] = [];
+
+  try {
+    const mappings: DeductionMapping[] = [
+      ...(rule.deductionMappings ? JSON.parse(rule.deductionMappings) : []),
+      ...chosenMappings,
+    ];
+
+    if (Array.isArray(mappings) && mappings.length > 0) {
+      // Targets that are bundles themselves are expanded down to their stocked components
+      for (const mapping of expandDeductionMappings(rule.variantId, mappings, bundleMappings)) {
+        // Base units are converted into the stocked unit, leaving the opened pack as a remainder
+        const needed = mapping.unitSize
+          ? roundToUnit((quantity * mapping.multiplier) / mapping.unitSize, mapping.unitSize)
+          : roundQuantity(quantity * mapping.multiplier);
+        const { inventoryItemId: targetInventoryItemId, substituteForVariantId } =
+          await chooseComponentVariant(admin, mapping, needed, locationId, stock);
+
+        if (targetInventoryItemId) {
+          // Deduct quantity × multiplier from the target variant (or its substitute)
+          adjustments.push({
+            inventoryItemId: targetInventoryItemId,
+            locationId,
+            delta: -needed,
+            substituteForVariantId,
+          });
+
+          // Later components and line items of the order see the stock this one takes
+          if (stock) {
+            const key = getRemainderKey(targetInventoryItemId, locationId);
+            stock.pending.set(key, roundQuantity((stock.pending.get(key) || 0) - needed));
+          }
+        } else {
+          console.log(`No inventory item found for target variant ${mapping.targetVariantId}`);
+          missingTargets.push(mapping.targetVariantId);
+        }
+      }
+
+      // Add back the inventory that Shopify deducted from the ordered variant
+      // since we're deducting from the target variants instead
+      adjustments.push({
+        inventoryItemId,
+        locationId,
+        delta: quantity,
+      });
+    }
+  } catch (error) {
+    console.error(`Error parsing deduction mappings: ${error}`);
+    // Fall back to legacy rule types if parsing fails
+    return buildLegacyDeductions(admin, rule, quantity, inventoryItemId, locationId);
+  }
+
+  return adjustments;
+}
+
+/**
+ * Compute the inventory adjustments for an order's line items based on the shop's variant rules.
+ *
+ * For each line item with a rule, deducts quantity × multiplier from every target variant and
+ * adds back the unit Shopify deducted from the ordered variant, at the location of each
+ * fulfillment order holding the line item. Build-your-own boxes also deduct the variants picked
+ * in the line item's properties. Line items without a rule, or whose inventory is not managed
+ * by Shopify, are left for Shopify to handle normally. Rules overridden at a fulfillment
+ * location deduct that location's mappings for the units it fulfills.
+ *
+ * With `chooseSubstitutes`, components short at the location are swapped for their first
+ * substitute with enough stock. Re-deriving past deductions (e.g. to reverse them) leaves it off.
+ * Line items with a rule that can't be deducted, e.g. without a fulfillment location, are
+ * added to `skipped`, as are build-your-own boxes whose picks weren't all deducted as picked.
+ */
+export async function buildLineItemDeductions(
+  admin: AdminApiContext,
+  variantRules: VariantRule[],
+  lineItems: OrderLineItem[],
+  locations: LineItemLocations,
+  options: { chooseSubstitutes?: boolean; skipped?: SkippedLineItem[] } = {}
+): Promise<LineItemDeduction[]> {
+  // Create a map for quick lookup
+  const rulesMap = new Map(
+    variantRules.map((rule) => [rule.variantId, rule])
+  );
+  const locationBundleMappings = new Map<string, BundleMappings>();
+  const getLocationBundleMappings = (locationId: string) => {
+    let bundleMappings = locationBundleMappings.get(locationId);
+    if (!bundleMappings) {
+      bundleMappings = buildBundleMappings(getRulesAtLocation(variantRules, locationId));
+      locationBundleMappings.set(locationId, bundleMappings);
+    }
+    return bundleMappings;
+  };
+  const stock: ComponentStock | null = options.chooseSubstitutes
+    ? { available: new Map(), pending: new Map() }
+    : null;
+
+  const deductions: LineItemDeduction[] = [];
+
+  for (const lineItem of lineItems) {
+    // Skip if inventory is not managed by Shopify
+    if (lineItem.variant_inventory_management !== "shopify") {
+      continue;
+    }
+
+    const variantId = `gid://shopify/ProductVariant/${lineItem.variant_id}`;
+    const rule = rulesMap.get(variantId);
+
+    if (!rule) {
+      // No custom rule, let Shopify handle normally
+      continue;
+    }
+
+    const lineItemId = lineItem.id?.toString() || "";
+    const allocations = allocateLineItemQuantity(lineItemId, lineItem.quantity, locations);
+
+    if (allocations.length === 0) {
+      console.log(`No fulfillment location found for line item ${lineItemId}, skipping inventory adjustment`);
+      options.skipped?.push({ lineItemId, variantId, reason: "No fulfillment location found" });
+      continue;
+    }
+
+    const inventoryItemId = await getInventoryItemId(admin, variantId);
+
+    if (!inventoryItemId) {
+      console.log(`No inventory item found for variant ${variantId}`);
+      options.skipped?.push({ lineItemId, variantId, reason: `No inventory item found for ${variantId}` });
+      continue;
+    }
+
+    const missingTargets: string[] = [];
+    const invalidPicks: string[] = [];
+
+    for (const allocation of allocations) {
+      const locationRule = getRuleAtLocation(rule, allocation.locationId);
+      const bundleMappings = getLocationBundleMappings(allocation.locationId);
+      const ruleSnapshot = snapshotRule(locationRule, bundleMappings);
+      const adjustments = await buildRuleAdjustments(
+        admin,
+        locationRule,
+        bundleMappings,
+        allocation.quantity,
+        inventoryItemId,
+        allocation.locationId,
+        lineItem.properties,
+        stock,
+        missingTargets,
+        invalidPicks
+      );
+
+      // The allocation's units are carried by its first row
+      adjustments.forEach((adjustment, index) => {
+        deductions.push({
+          ...adjustment,
+          lineItemId,
+          variantId,
+          quantity: index === 0 ? allocation.quantity : 0,
+          ruleSnapshot,
+        });
+      });
+    }
+
+    for (const targetVariantId of new Set(missingTargets)) {
+      options.skipped?.push({
+        lineItemId,
+        variantId,
+        reason: `No inventory item found for component ${targetVariantId}`,
+      });
+    }
+
+    // Each allocation reads the same picks, so their problems are reported once
+    for (const reason of new Set(invalidPicks)) {
+      options.skipped?.push({ lineItemId, variantId, reason });
+    }
+  }
+
+  return deductions;
+}
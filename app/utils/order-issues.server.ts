@@ -0,0 +1,135 @@
+import type { OrderIssue } from "@prisma/client";
+import db from "../db.server";
+import { enqueueJob } from "./job-queue.server";
+import type { SkippedLineItem } from "./order-deductions.server";
+
+export type OrderIssueKind = "failed" | "skipped";
+
+export type OrderIssueResolution = "succeeded" | "resolved" | "undone";
+
+/**
+ * The order event an issue was found in, and the job that replays it
+ */
+export interface OrderIssueEvent {
+  shop: string;
+  orderId: string;
+  source: string;
+  jobType: string;
+  payload: unknown;
+}
+
+/**
+ * Get the message of an error thrown while processing an order event
+ */
+export function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Record, or reopen, the issue of an order event. An event running into an issue again
+ * (e.g. a retried job failing once more) updates its existing issue.
+ */
+export async function recordOrderIssue(
+  event: OrderIssueEvent,
+  kind: OrderIssueKind,
+  message: string
+): Promise<void> {
+  const payload = JSON.stringify(event.payload ?? null);
+
+  await db.orderIssue.upsert({
+    where: {
+      shop_orderId_source: {
+        shop: event.shop,
+        orderId: event.orderId,
+        source: event.source,
+      },
+    },
+    create: {
+      shop: event.shop,
+      orderId: event.orderId,
+      source: event.source,
+      kind,
+      message,
+      jobType: event.jobType,
+      payload,
+    },
+    update: {
+      kind,
+      message,
+      attempts: { increment: 1 },
+      jobType: event.jobType,
+      payload,
+      resolution: null,
+      resolvedAt: null,
+    },
+  });
+}
+
+/**
+ * Record the line items an order event's deduction skipped, or resolve the event's open
+ * issue when nothing was skipped: the event succeeded, e.g. on a retry or a replay.
+ */
+export async function recordSkippedLineItems(
+  event: OrderIssueEvent,
+  skipped: SkippedLineItem[]
+): Promise<void> {
+  if (skipped.length > 0) {
+    await recordOrderIssue(
+      event,
+      "skipped",
+      skipped.map((item) => `Line item ${item.lineItemId}: ${item.reason}`).join("\n")
+    );
+    return;
+  }
+
+  await resolveOrderIssues(event.shop, event.orderId, "succeeded", event.source);
+}
+
+/**
+ * Resolve the open issues of an order, or only those of one of its events
+ */
+export async function resolveOrderIssues(
+  shop: string,
+  orderId: string,
+  resolution: OrderIssueResolution,
+  source?: string
+): Promise<number> {
+  const { count } = await db.orderIssue.updateMany({
+    where: { shop, orderId, source, resolvedAt: null },
+    data: { resolution, resolvedAt: new Date() },
+  });
+
+  return count;
+}
+
+/**
+ * Get a shop's open issues, most recent first
+ */
+export async function getOpenOrderIssues(shop: string, limit = 200): Promise<OrderIssue[]> {
+  return db.orderIssue.findMany({
+    where: { shop, resolvedAt: null },
+    orderBy: { updatedAt: "desc" },
+    take: limit,
+  });
+}
+
+/**
+ * Get an issue of a shop
+ */
+export async function getOrderIssue(shop: string, issueId: string): Promise<OrderIssue | null> {
+  return db.orderIssue.findFirst({
+    where: { id: issueId, shop },
+  });
+}
+
+/**
+ * Queue the issue's event to run again with the payload it failed with. The issue is
+ * resolved once the event succeeds.
+ */
+export async function replayOrderIssue(issue: OrderIssue): Promise<boolean> {
+  if (!issue.jobType || !issue.payload) {
+    return false;
+  }
+
+  return enqueueJob(issue.shop, issue.jobType, JSON.parse(issue.payload));
+}
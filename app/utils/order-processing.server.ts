@@ -0,0 +1,669 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { Prisma } from "@prisma/client";
+import type { ProcessedOrder } from "@prisma/client";
+import { randomUUID } from "node:crypto";
+import db from "../db.server";
+import {
+  buildLineItemDeductions,
+  getOrderGid,
+  getOrderId,
+} from "./order-deductions.server";
+import type {
+  LineItemDeduction,
+  OrderLineItem,
+  OrderPayload,
+  SkippedLineItem,
+} from "./order-deductions.server";
+import { resolveLineItemLocations } from "./fulfillment-locations.server";
+import type { LineItemLocations } from "./fulfillment-locations.server";
+import {
+  adjustInventoryWithRemainders,
+  carryRemainders,
+  releaseRemainders,
+} from "./component-remainders.server";
+import { getLedgerReversal, recordOrderDeductions } from "./deduction-ledger.server";
+import { adjustInventoryQuantities } from "./inventory-write.server";
+import type { InventoryAdjustment } from "./inventory-write.server";
+import { DEDUCTION_TRIGGERS, getShopSettings } from "./shop-settings.server";
+import type { DeductionTrigger } from "./shop-settings.server";
+import { getOrderProcessedAt, getRulesDate, getRulesInEffect } from "./rule-schedule.server";
+import { enforceOversellPolicy, recordShortfalls } from "./oversell.server";
+import type { ShortfallEntry } from "./oversell.server";
+import {
+  getErrorMessage,
+  recordOrderIssue,
+  recordSkippedLineItems,
+  resolveOrderIssues,
+} from "./order-issues.server";
+
+/**
+ * Lifecycle of a processed order: pending while its deduction runs, applied once it is
+ * recorded, failed when an attempt stopped with an error and reversed once cancelled
+ */
+export type ProcessedOrderStatus = "pending" | "applied" | "failed" | "reversed";
+
+/**
+ * How far a deduction got: started (nothing applied), planned (adjustments computed and
+ * saved, and once its write is prepared, possibly sent), adjusted (Shopify applied them),
+ * recorded (the ledger holds them)
+ */
+export type DeductionStage = "started" | "planned" | "adjusted" | "recorded";
+
+/**
+ * The deduction of one ledger source that is in progress, or failed, for an order
+ */
+export interface DeductionProgress {
+  source: string;
+  stage: DeductionStage;
+  deductions: LineItemDeduction[];
+  shortfalls: ShortfallEntry[];
+  skipped: SkippedLineItem[];
+  adjustmentGroupId: string | null;
+  writes?: InventoryAdjustment[]; // Whole-unit adjustments sent to Shopify, once remainders are carried
+  carried?: InventoryAdjustment[]; // Remainder changes made for the writes, released if Shopify rejects them
+  idempotencyKey?: string; // Key every attempt sends the writes under, so Shopify applies them once
+}
+
+/**
+ * Adjustments a deduction applies, with the shortfalls and skipped line items found planning them
+ */
+export interface DeductionPlan {
+  deductions: LineItemDeduction[];
+  shortfalls: ShortfallEntry[];
+  skipped: SkippedLineItem[];
+}
+
+/**
+ * Result of deducting line items: whether inventory was adjusted and which line items were left out
+ */
+export interface DeductionOutcome {
+  adjusted: boolean;
+  deductions: LineItemDeduction[]; // Applied deductions, none when nothing was adjusted
+  skipped: SkippedLineItem[];
+}
+
+// A pending deduction not updated for this long is assumed abandoned by a stopped process and may be resumed
+const PENDING_DEDUCTION_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Whether an order event deducts components under the shop's configured trigger.
+ *
+ * Events at or after the configured trigger in the order lifecycle (created, paid, fulfilled)
+ * deduct, so an order whose trigger event was missed, e.g. because the setting changed while
+ * the order was open, is still deducted by its next event. The ProcessedOrder record ensures
+ * only the first of those events deducts.
+ */
+export function isDeductionEvent(
+  configuredTrigger: DeductionTrigger,
+  event: DeductionTrigger
+): boolean {
+  return DEDUCTION_TRIGGERS.indexOf(event) >= DEDUCTION_TRIGGERS.indexOf(configuredTrigger);
+}
+
+/**
+ * Find the ProcessedOrder record of an order, if any event deducted it
+ */
+export async function getProcessedOrder(
+  shop: string,
+  orderId: string
+): Promise<ProcessedOrder | null> {
+  return db.processedOrder.findUnique({
+    where: {
+      shop_orderId: {
+        shop,
+        orderId,
+      },
+    },
+  });
+}
+
+/**
+ * Find the ProcessedOrder records of several orders, keyed by order ID
+ */
+export async function getProcessedOrders(
+  shop: string,
+  orderIds: string[]
+): Promise<Map<string, ProcessedOrder>> {
+  const processedOrders = await db.processedOrder.findMany({
+    where: { shop, orderId: { in: Array.from(new Set(orderIds)) } },
+  });
+
+  return new Map(processedOrders.map((processedOrder) => [processedOrder.orderId, processedOrder]));
+}
+
+/**
+ * Claim an order for deduction by `trigger`, recording when the order was placed so every
+ * later event of the order uses the rules that were in effect at that time.
+ *
+ * The record is unique per shop and order, so when two trigger events race (e.g. orders/create
+ * and orders/paid for an order paid at checkout) only one of them gets the record; the other
+ * gets null and must not deduct. A record of the same trigger whose deduction failed or stopped
+ * part-way is returned so the retry can resume it.
+ */
+export async function claimProcessedOrder(
+  shop: string,
+  orderId: string,
+  trigger: DeductionTrigger,
+  orderProcessedAt: Date
+): Promise<ProcessedOrder | null> {
+  try {
+    return await db.processedOrder.create({
+      data: {
+        shop,
+        orderId,
+        deductionTrigger: trigger,
+        orderProcessedAt,
+        status: "pending",
+      },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      const existing = await getProcessedOrder(shop, orderId);
+
+      if (
+        existing &&
+        existing.deductionTrigger === trigger &&
+        (existing.status === "pending" || existing.status === "failed")
+      ) {
+        return existing;
+      }
+
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse the deduction in progress of an order, if any
+ */
+export function getDeductionProgress(processedOrder: ProcessedOrder): DeductionProgress | null {
+  if (!processedOrder.progress) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(processedOrder.progress) as DeductionProgress;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Start, or resume, deducting `source` for an order, marking it pending.
+ *
+ * Returns null when another process is deducting the order right now. Throws when the order
+ * has an unfinished deduction of another source, which has to be applied first.
+ */
+export async function beginOrderDeduction(
+  processedOrder: ProcessedOrder,
+  source: string
+): Promise<ProcessedOrder | null> {
+  if (processedOrder.status === "reversed") {
+    throw new Error(`Order ${processedOrder.orderId} was reversed and can't be deducted`);
+  }
+
+  const progress = getDeductionProgress(processedOrder);
+
+  if (progress && progress.source !== source) {
+    throw new Error(
+      `Order ${processedOrder.orderId} has an unfinished deduction for ${progress.source}`
+    );
+  }
+
+  const staleBefore = new Date(Date.now() - PENDING_DEDUCTION_TIMEOUT_MS);
+  if (processedOrder.status === "pending" && progress && processedOrder.updatedAt >= staleBefore) {
+    return null;
+  }
+
+  const started: DeductionProgress = progress || {
+    source,
+    stage: "started",
+    deductions: [],
+    shortfalls: [],
+    skipped: [],
+    adjustmentGroupId: null,
+  };
+
+  // Only the process that read the latest version of the record gets to deduct
+  const { count } = await db.processedOrder.updateMany({
+    where: { id: processedOrder.id, updatedAt: processedOrder.updatedAt },
+    data: {
+      status: "pending",
+      attempts: { increment: 1 },
+      progress: JSON.stringify(started),
+    },
+  });
+
+  if (count === 0) {
+    return null;
+  }
+
+  return db.processedOrder.findUnique({ where: { id: processedOrder.id } });
+}
+
+/**
+ * Save how far the order's deduction got, so a retry resumes from there
+ */
+async function saveDeductionProgress(
+  processedOrderId: string,
+  progress: DeductionProgress
+): Promise<void> {
+  await db.processedOrder.update({
+    where: { id: processedOrderId },
+    data: { progress: JSON.stringify(progress) },
+  });
+}
+
+/**
+ * Mark the order's deduction as applied
+ */
+export async function completeOrderDeduction(processedOrderId: string): Promise<void> {
+  await db.processedOrder.update({
+    where: { id: processedOrderId },
+    data: { status: "applied", progress: null, lastError: null },
+  });
+}
+
+/**
+ * Mark the order's deduction as failed, keeping its progress for the retry
+ */
+export async function failOrderDeduction(
+  processedOrderId: string,
+  error: unknown
+): Promise<void> {
+  await db.processedOrder.update({
+    where: { id: processedOrderId },
+    data: {
+      status: "failed",
+      lastError: getErrorMessage(error),
+    },
+  });
+}
+
+/**
+ * Whether a later event of an order (an edit, move or refund) can adjust its deductions.
+ *
+ * Reversed orders have nothing left to adjust. While another deduction of the order is
+ * pending or failed this throws, so the event's job is retried once that one is applied;
+ * an adjustment of the event's own `source` that stopped part-way can be resumed.
+ */
+export function canAdjustProcessedOrder(processedOrder: ProcessedOrder, source: string): boolean {
+  if (processedOrder.status === "reversed") {
+    console.log(`Order ${processedOrder.orderId} was reversed, skipping`);
+    return false;
+  }
+
+  if (getDeductionProgress(processedOrder)?.source === source) {
+    return true;
+  }
+
+  if (processedOrder.status === "pending" || processedOrder.status === "failed") {
+    throw new Error(
+      `Order ${processedOrder.orderId} is ${processedOrder.status}, waiting for its deduction to be applied`
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Carry the remainders of a planned deduction and save the whole-unit writes they leave, with
+ * the idempotency key they are sent under, so every attempt sends exactly the same write
+ */
+async function prepareDeductionWrites(
+  shop: string,
+  processedOrderId: string,
+  progress: DeductionProgress
+): Promise<DeductionProgress> {
+  if (progress.writes) {
+    return progress;
+  }
+
+  const { adjustments, carried } = await carryRemainders(shop, progress.deductions);
+  const prepared = { ...progress, writes: adjustments, carried, idempotencyKey: randomUUID() };
+  await saveDeductionProgress(processedOrderId, prepared);
+  return prepared;
+}
+
+/**
+ * Send the planned writes of a deduction to Shopify, returning the deduction's new progress
+ * and, when the writes weren't applied, why.
+ *
+ * Writes Shopify rejected changed nothing: their remainders are released and the deduction
+ * goes back to started, so the retry plans again from the stock at that time. Writes whose
+ * request failed without a response may have been applied, so they stay planned and the retry
+ * sends them again under the same idempotency key, which Shopify applies at most once.
+ */
+async function sendDeductionWrites(
+  admin: AdminApiContext,
+  shop: string,
+  processedOrderId: string,
+  planned: DeductionProgress,
+  referenceDocumentUri: string
+): Promise<{ progress: DeductionProgress; error?: string }> {
+  const progress = await prepareDeductionWrites(shop, processedOrderId, planned);
+
+  const result = await adjustInventoryQuantities(admin, progress.writes || [], {
+    referenceDocumentUri,
+    idempotencyKey: progress.idempotencyKey,
+  });
+
+  if (result.success) {
+    const adjusted: DeductionProgress = {
+      ...progress,
+      stage: "adjusted",
+      adjustmentGroupId: result.adjustmentGroupId,
+    };
+    await saveDeductionProgress(processedOrderId, adjusted);
+    return { progress: adjusted };
+  }
+
+  const error = `Inventory adjustment failed: ${
+    result.error || result.userErrors.map((userError) => userError.message).join(", ")
+  }`;
+
+  if (result.unconfirmed) {
+    return { progress, error };
+  }
+
+  await releaseRemainders(shop, progress.carried || []);
+  const started: DeductionProgress = {
+    source: progress.source,
+    stage: "started",
+    deductions: [],
+    shortfalls: [],
+    skipped: [],
+    adjustmentGroupId: null,
+  };
+  await saveDeductionProgress(processedOrderId, started);
+  return { progress: started, error };
+}
+
+/**
+ * Apply a deduction started with beginOrderDeduction and record it in the order's ledger
+ * under its source. `plan` works out the adjustments; it is only called while nothing is
+ * planned yet.
+ *
+ * Each step saves the order's progress, so a retry after a failure resumes where it stopped:
+ * adjustments Shopify may already have applied are sent again under the same idempotency key
+ * or recorded, rather than applied twice. The order is marked applied once everything is
+ * recorded; callers mark it failed when this throws.
+ */
+export async function runOrderDeduction(
+  admin: AdminApiContext,
+  shop: string,
+  processedOrder: ProcessedOrder,
+  referenceDocumentUri: string,
+  plan: () => Promise<DeductionPlan>
+): Promise<DeductionOutcome> {
+  let progress = getDeductionProgress(processedOrder);
+
+  if (!progress) {
+    throw new Error(`No deduction was started for order ${processedOrder.orderId}`);
+  }
+
+  if (progress.stage === "started") {
+    const { deductions, shortfalls, skipped } = await plan();
+
+    if (deductions.length === 0) {
+      await completeOrderDeduction(processedOrder.id);
+      return { adjusted: false, deductions: [], skipped };
+    }
+
+    progress = { ...progress, stage: "planned", deductions, shortfalls, skipped };
+    await saveDeductionProgress(processedOrder.id, progress);
+  }
+
+  if (progress.stage === "planned") {
+    const sent = await sendDeductionWrites(
+      admin,
+      shop,
+      processedOrder.id,
+      progress,
+      referenceDocumentUri
+    );
+
+    if (sent.error) {
+      throw new Error(sent.error);
+    }
+    progress = sent.progress;
+  }
+
+  if (progress.stage === "adjusted") {
+    await recordOrderDeductions(
+      processedOrder.id,
+      progress.deductions,
+      progress.adjustmentGroupId,
+      progress.source
+    );
+
+    progress = { ...progress, stage: "recorded" };
+    await saveDeductionProgress(processedOrder.id, progress);
+  }
+
+  await recordShortfalls(admin, shop, processedOrder.orderId, progress.source, progress.shortfalls);
+  await completeOrderDeduction(processedOrder.id);
+  return { adjusted: true, deductions: progress.deductions, skipped: progress.skipped || [] };
+}
+
+/**
+ * Deduct the components of line items with the rules in effect when the order was placed
+ * and record the deductions in the order's ledger under `source`. Components the order
+ * needs more of than is available are handled by the oversell policy and recorded as shortfalls.
+ *
+ * `processedOrder` must have been started for `source` with beginOrderDeduction; see
+ * runOrderDeduction for how a retry resumes it.
+ */
+export async function applyLineItemDeductions(
+  admin: AdminApiContext,
+  shop: string,
+  processedOrder: ProcessedOrder,
+  lineItems: OrderLineItem[],
+  locations: LineItemLocations,
+  source: string,
+  referenceDocumentUri: string
+): Promise<DeductionOutcome> {
+  if (getDeductionProgress(processedOrder)?.source !== source) {
+    throw new Error(`Deduction of ${source} wasn't started for order ${processedOrder.orderId}`);
+  }
+
+  return runOrderDeduction(admin, shop, processedOrder, referenceDocumentUri, async () => {
+    const variantRules = await getRulesInEffect(shop, getRulesDate(processedOrder));
+    const skipped: SkippedLineItem[] = [];
+
+    const { deductions, shortfalls } = await enforceOversellPolicy(
+      admin,
+      shop,
+      variantRules,
+      await buildLineItemDeductions(admin, variantRules, lineItems, locations, {
+        chooseSubstitutes: true,
+        skipped,
+      })
+    );
+
+    return { deductions, shortfalls, skipped };
+  });
+}
+
+/**
+ * Deduct a whole order for an orders/create or orders/paid event.
+ *
+ * Skips the order when the shop deducts at a later event or another event already
+ * deducted it. Returns the deductions applied for this event, none when it skipped the order.
+ */
+export async function deductOrderForEvent(
+  admin: AdminApiContext,
+  shop: string,
+  order: OrderPayload,
+  event: DeductionTrigger
+): Promise<LineItemDeduction[]> {
+  const orderId = getOrderId(order);
+
+  if (!orderId) {
+    console.log("Order ID not found in payload");
+    return [];
+  }
+
+  const { deductionTrigger } = await getShopSettings(shop);
+  if (!isDeductionEvent(deductionTrigger, event)) {
+    console.log(`Shop deducts on ${deductionTrigger}, skipping ${event} for order ${orderId}`);
+    return [];
+  }
+
+  // Check if order was already processed (idempotency)
+  const claimed = await claimProcessedOrder(shop, orderId, event, getOrderProcessedAt(order));
+
+  if (!claimed) {
+    console.log(`Order ${orderId} already processed, skipping`);
+    return [];
+  }
+
+  const processedOrder = await beginOrderDeduction(claimed, event);
+
+  if (!processedOrder) {
+    console.log(`Order ${orderId} is being processed by another event, skipping`);
+    return [];
+  }
+
+  if (processedOrder.attempts > 1) {
+    console.log(`Resuming deduction of order ${orderId}, attempt ${processedOrder.attempts}`);
+  }
+
+  const issueEvent = { shop, orderId, source: event, jobType: event, payload: order };
+
+  try {
+    if (!order.line_items || order.line_items.length === 0) {
+      console.log("Order has no line items, skipping");
+      await completeOrderDeduction(processedOrder.id);
+      return [];
+    }
+
+    // Route each line item to the location of the fulfillment order that holds it
+    const locations = await resolveLineItemLocations(
+      admin,
+      shop,
+      getOrderGid(order),
+      order.line_items.map((lineItem) => lineItem.id?.toString() || "")
+    );
+
+    const { adjusted, deductions, skipped } = await applyLineItemDeductions(
+      admin,
+      shop,
+      processedOrder,
+      order.line_items,
+      locations,
+      event,
+      getOrderGid(order)
+    );
+
+    if (adjusted) {
+      console.log(`Successfully adjusted inventory for order ${orderId}`);
+    }
+
+    await recordSkippedLineItems(issueEvent, skipped);
+    return deductions;
+  } catch (error) {
+    await failOrderDeduction(processedOrder.id, error);
+    await recordOrderIssue(issueEvent, "failed", getErrorMessage(error));
+    throw error;
+  }
+}
+
+/**
+ * Build the adjustments that undo everything applied for an order: what its ledger records,
+ * plus a deduction Shopify applied that failed before it was recorded.
+ *
+ * Writes of a deduction that may or may not have reached Shopify are sent again under their
+ * idempotency key first, so the reversal knows whether they were applied. Throws when that
+ * still can't be confirmed.
+ */
+export async function getAppliedReversal(
+  admin: AdminApiContext,
+  shop: string,
+  processedOrder: ProcessedOrder
+): Promise<InventoryAdjustment[]> {
+  const reversals = await getLedgerReversal(processedOrder.id);
+
+  let progress = getDeductionProgress(processedOrder);
+  if (progress?.stage === "planned" && progress.writes) {
+    const sent = await sendDeductionWrites(
+      admin,
+      shop,
+      processedOrder.id,
+      progress,
+      `gid://shopify/Order/${processedOrder.orderId}`
+    );
+
+    if (sent.progress.stage === "planned") {
+      throw new Error(`Couldn't confirm the pending deduction of order ${processedOrder.orderId}: ${sent.error}`);
+    }
+    progress = sent.progress;
+  }
+
+  if (progress?.stage === "adjusted") {
+    reversals.push(
+      ...progress.deductions.map((deduction) => ({
+        inventoryItemId: deduction.inventoryItemId,
+        locationId: deduction.locationId,
+        delta: -deduction.delta,
+      }))
+    );
+  }
+
+  return reversals;
+}
+
+/**
+ * Manually undo everything deducted for an order and forget it, so replaying one of its
+ * events deducts it from scratch. Resolves the order's open issues as undone.
+ *
+ * Returns an error message when the order can't be undone.
+ */
+export async function undoOrderDeduction(
+  admin: AdminApiContext,
+  shop: string,
+  orderId: string
+): Promise<{ error?: string }> {
+  const processedOrder = await getProcessedOrder(shop, orderId);
+
+  if (!processedOrder) {
+    return { error: `Order ${orderId} has no recorded deduction` };
+  }
+
+  if (processedOrder.status === "reversed") {
+    return { error: `Order ${orderId} was already reversed` };
+  }
+
+  if (!processedOrder.hasDeductionLedger) {
+    return { error: `Order ${orderId} was deducted before the deduction ledger existed and can't be undone` };
+  }
+
+  let reversals: InventoryAdjustment[];
+  try {
+    reversals = await getAppliedReversal(admin, shop, processedOrder);
+  } catch (error) {
+    return { error: getErrorMessage(error) };
+  }
+
+  if (reversals.length > 0) {
+    const result = await adjustInventoryWithRemainders(admin, shop, reversals, {
+      referenceDocumentUri: `gid://shopify/Order/${orderId}`,
+    });
+
+    if (!result.success) {
+      return {
+        error: `Failed to undo order ${orderId}: ${
+          result.error || result.userErrors.map((userError) => userError.message).join(", ")
+        }`,
+      };
+    }
+  }
+
+  // The ledger goes with the record
+  await db.processedOrder.delete({ where: { id: processedOrder.id } });
+  await resolveOrderIssues(shop, orderId, "undone");
+
+  console.log(`Undid the deduction of order ${orderId}`);
+  return {};
+}
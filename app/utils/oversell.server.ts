@@ -0,0 +1,241 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import type { InventoryShortfall, VariantRule } from "@prisma/client";
+import db from "../db.server";
+import type { LineItemDeduction } from "./order-deductions.server";
+import { getComponentRemainders, getRemainderKey, roundQuantity } from "./component-remainders.server";
+import { getShopSettings, isOversellPolicy } from "./shop-settings.server";
+import type { OversellPolicy } from "./shop-settings.server";
+
+// Order tag added when a clamp_and_alert shortfall happens
+export const OVERSOLD_ORDER_TAG = "oversold";
+
+/**
+ * Units of a component a line item needed but that weren't available
+ */
+export interface ShortfallEntry {
+  lineItemId: string;
+  variantId: string;
+  inventoryItemId: string;
+  locationId: string;
+  requested: number;
+  shortfall: number;
+  policy: OversellPolicy;
+}
+
+/**
+ * Get the oversell policy for a line item's ordered variant: the rule's override or the shop's policy
+ */
+export function getOversellPolicy(
+  rule: Pick<VariantRule, "oversellPolicy"> | undefined,
+  shopPolicy: OversellPolicy
+): OversellPolicy {
+  return isOversellPolicy(rule?.oversellPolicy) ? rule.oversellPolicy : shopPolicy;
+}
+
+/**
+ * Find the shortfalls of a set of deductions and clamp the deductions whose policy says so.
+ *
+ * `available` holds the stock of each component at each location (keyed like remainders),
+ * including carried remainders. Where the net deduction exceeds what is available, the
+ * missing units are split across the line items deducting that component in proportion to
+ * what they deduct. Deductions under a clamp policy are reduced by their share, so stock stops
+ * at zero and the ledger only records what was actually taken; under allow_negative they are
+ * applied in full. A shortfall entry is returned for every affected line item either way.
+ */
+export function applyOversellPolicy(
+  deductions: LineItemDeduction[],
+  available: Map<string, number>,
+  getPolicy: (variantId: string) => OversellPolicy
+): { deductions: LineItemDeduction[]; shortfalls: ShortfallEntry[] } {
+  const netDeltas = new Map<string, number>();
+  const requested = new Map<string, number>();
+
+  for (const deduction of deductions) {
+    const key = getRemainderKey(deduction.inventoryItemId, deduction.locationId);
+    netDeltas.set(key, (netDeltas.get(key) || 0) + deduction.delta);
+    if (deduction.delta < 0) {
+      requested.set(key, (requested.get(key) || 0) - deduction.delta);
+    }
+  }
+
+  // Units missing per component and location: what the net deduction takes beyond zero stock
+  const missing = new Map<string, number>();
+  for (const [key, netDelta] of netDeltas) {
+    const stock = Math.max(0, available.get(key) || 0);
+    const shortfall = roundQuantity(Math.min(-netDelta, -(stock + netDelta)));
+    if (shortfall > 0) {
+      missing.set(key, shortfall);
+    }
+  }
+
+  const shortfalls: ShortfallEntry[] = [];
+  const adjusted = deductions.map((deduction) => {
+    const key = getRemainderKey(deduction.inventoryItemId, deduction.locationId);
+    const keyShortfall = missing.get(key);
+    if (!keyShortfall || deduction.delta >= 0) {
+      return deduction;
+    }
+
+    const share = roundQuantity((keyShortfall * -deduction.delta) / (requested.get(key) || 1));
+    const policy = getPolicy(deduction.variantId);
+
+    shortfalls.push({
+      lineItemId: deduction.lineItemId,
+      variantId: deduction.variantId,
+      inventoryItemId: deduction.inventoryItemId,
+      locationId: deduction.locationId,
+      requested: roundQuantity(-deduction.delta),
+      shortfall: share,
+      policy,
+    });
+
+    return policy === "allow_negative"
+      ? deduction
+      : { ...deduction, delta: roundQuantity(deduction.delta + share) };
+  });
+
+  return { deductions: adjusted, shortfalls };
+}
+
+/**
+ * Read the available stock, plus carried remainders, of every component the deductions take from
+ */
+async function getAvailableForDeductions(
+  admin: AdminApiContext,
+  shop: string,
+  deductions: LineItemDeduction[]
+): Promise<Map<string, number>> {
+  const remainders = await getComponentRemainders(shop);
+  const available = new Map<string, number>();
+
+  for (const deduction of deductions) {
+    const key = getRemainderKey(deduction.inventoryItemId, deduction.locationId);
+    if (deduction.delta >= 0 || available.has(key)) {
+      continue;
+    }
+
+    const response = await admin.graphql(
+      `#graphql
+        query getComponentAvailable($inventoryItemId: ID!, $locationId: ID!) {
+          inventoryItem(id: $inventoryItemId) {
+            inventoryLevel(locationId: $locationId) {
+              quantities(names: ["available"]) {
+                name
+                quantity
+              }
+            }
+          }
+        }
+      `,
+      {
+        variables: {
+          inventoryItemId: deduction.inventoryItemId,
+          locationId: deduction.locationId,
+        },
+      }
+    );
+
+    const data = await response.json();
+    const quantity = data.data?.inventoryItem?.inventoryLevel?.quantities?.[0]?.quantity || 0;
+    available.set(key, roundQuantity(quantity + (remainders.get(key) || 0)));
+  }
+
+  return available;
+}
+
+/**
+ * Apply the shop's oversell policy, and the overrides of the rules used, to order deductions
+ * about to be written. Stock is read right before the write, so two orders landing at the same
+ * moment can still take a component slightly below zero.
+ */
+export async function enforceOversellPolicy(
+  admin: AdminApiContext,
+  shop: string,
+  variantRules: Array<Pick<VariantRule, "variantId" | "oversellPolicy">>,
+  deductions: LineItemDeduction[]
+): Promise<{ deductions: LineItemDeduction[]; shortfalls: ShortfallEntry[] }> {
+  if (!deductions.some((deduction) => deduction.delta < 0)) {
+    return { deductions, shortfalls: [] };
+  }
+
+  const { oversellPolicy } = await getShopSettings(shop);
+  const rulesMap = new Map(variantRules.map((rule) => [rule.variantId, rule]));
+  const available = await getAvailableForDeductions(admin, shop, deductions);
+
+  return applyOversellPolicy(deductions, available, (variantId) =>
+    getOversellPolicy(rulesMap.get(variantId), oversellPolicy)
+  );
+}
+
+/**
+ * Persist the shortfalls of an order event and tag the order when a clamp_and_alert policy applied
+ */
+export async function recordShortfalls(
+  admin: AdminApiContext,
+  shop: string,
+  orderId: string,
+  source: string,
+  shortfalls: ShortfallEntry[]
+): Promise<void> {
+  if (shortfalls.length === 0) {
+    return;
+  }
+
+  await db.inventoryShortfall.createMany({
+    data: shortfalls.map((shortfall) => ({
+      shop,
+      orderId,
+      source,
+      ...shortfall,
+    })),
+  });
+
+  console.warn(`Order ${orderId} is short ${shortfalls.length} component deduction(s) (${source})`);
+
+  if (!shortfalls.some((shortfall) => shortfall.policy === "clamp_and_alert")) {
+    return;
+  }
+
+  try {
+    const response = await admin.graphql(
+      `#graphql
+        mutation tagOversoldOrder($id: ID!, $tags: [String!]!) {
+          tagsAdd(id: $id, tags: $tags) {
+            userErrors {
+              field
+              message
+            }
+          }
+        }
+      `,
+      {
+        variables: {
+          id: `gid://shopify/Order/${orderId}`,
+          tags: [OVERSOLD_ORDER_TAG],
+        },
+      }
+    );
+
+    const data = await response.json();
+    if (data.data?.tagsAdd?.userErrors?.length > 0) {
+      console.error("Oversold order tag errors:", data.data.tagsAdd.userErrors);
+    }
+  } catch (error) {
+    console.error(`Error tagging oversold order ${orderId}: ${error}`);
+    // The shortfall is recorded even if the tag can't be added
+  }
+}
+
+/**
+ * Get the most recent shortfalls of a shop, newest first
+ */
+export async function getRecentShortfalls(
+  shop: string,
+  limit = 200
+): Promise<InventoryShortfall[]> {
+  return db.inventoryShortfall.findMany({
+    where: { shop },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+}
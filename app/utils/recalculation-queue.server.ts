@@ -0,0 +1,132 @@
+import type { VariantRule } from "@prisma/client";
+import db from "../db.server";
+import type { CalculationScope } from "./inventory-calculation.server";
+import type { InventoryAdjustment } from "./inventory-write.server";
+
+// Job type of a queued multipack inventory recalculation
+export const RECALCULATION_JOB_TYPE = "inventory/recalculate";
+
+// How long a recalculation waits for more requests to coalesce before it runs
+export const RECALCULATION_DELAY_MS = 5000;
+
+/**
+ * Combine two calculation scopes into one covering both. A scope without inventory items or
+ * locations covers all of them, so it widens the combined scope to all as well.
+ */
+export function mergeCalculationScopes(a: CalculationScope, b: CalculationScope): CalculationScope {
+  const union = (x?: string[], y?: string[]) => (x && y ? Array.from(new Set([...x, ...y])) : undefined);
+
+  const merged: CalculationScope = {};
+  const inventoryItemIds = union(a.inventoryItemIds, b.inventoryItemIds);
+  const locationIds = union(a.locationIds, b.locationIds);
+  if (inventoryItemIds) {
+    merged.inventoryItemIds = inventoryItemIds;
+  }
+  if (locationIds) {
+    merged.locationIds = locationIds;
+  }
+
+  return merged;
+}
+
+/**
+ * Get the scope of the bundles inventory adjustments can have affected: those made from the
+ * adjusted inventory items, at the locations they were adjusted at
+ */
+export function getAdjustmentScope(
+  adjustments: Array<Pick<InventoryAdjustment, "inventoryItemId" | "locationId">>
+): CalculationScope {
+  return {
+    inventoryItemIds: Array.from(new Set(adjustments.map((adjustment) => adjustment.inventoryItemId))),
+    locationIds: Array.from(new Set(adjustments.map((adjustment) => adjustment.locationId))),
+  };
+}
+
+/**
+ * Queue a multipack inventory recalculation for a shop, coalescing it with the shop's
+ * recalculation that is still waiting to run.
+ *
+ * A new recalculation runs RECALCULATION_DELAY_MS after the first request; requests made
+ * in the meantime widen its scope instead of queueing passes of their own. The delay isn't
+ * pushed back by later requests, so a steady burst still gets a pass every window. The job
+ * queue runs one job per shop at a time, so passes never overlap, and a request made while
+ * a pass runs queues the next one, which reads the stock after it.
+ *
+ * A scope without any inventory items or locations covers no bundles and queues nothing.
+ * Returns true when a new recalculation was queued.
+ */
+export async function scheduleRecalculation(shop: string, scope: CalculationScope = {}): Promise<boolean> {
+  if (scope.inventoryItemIds?.length === 0 || scope.locationIds?.length === 0) {
+    return false;
+  }
+
+  // Recalculations queued at a rule's window boundary are left to run then, not merged into
+  const waiting = await db.backgroundJob.findFirst({
+    where: {
+      shop,
+      type: RECALCULATION_JOB_TYPE,
+      status: "pending",
+      attempts: 0,
+      runAt: { lte: new Date(Date.now() + RECALCULATION_DELAY_MS) },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  if (waiting) {
+    // Only merged while still unclaimed; a worker that claimed it in between reads older stock
+    const { count } = await db.backgroundJob.updateMany({
+      where: { id: waiting.id, status: "pending", attempts: 0 },
+      data: {
+        payload: JSON.stringify(mergeCalculationScopes(JSON.parse(waiting.payload) || {}, scope)),
+      },
+    });
+
+    if (count > 0) {
+      return false;
+    }
+  }
+
+  await db.backgroundJob.create({
+    data: {
+      shop,
+      type: RECALCULATION_JOB_TYPE,
+      payload: JSON.stringify(scope),
+      runAt: new Date(Date.now() + RECALCULATION_DELAY_MS),
+    },
+  });
+
+  return true;
+}
+
+/**
+ * Queue a full recalculation of a shop at each future boundary of a scheduled rule's window,
+ * so its bundle counts switch to the rule when the window starts and back when it ends.
+ * A boundary that already has a recalculation queued isn't queued again.
+ */
+export async function scheduleRuleWindowRecalculations(
+  shop: string,
+  rule: Pick<VariantRule, "effectiveFrom" | "effectiveTo">
+): Promise<void> {
+  const now = new Date();
+
+  for (const boundary of [rule.effectiveFrom, rule.effectiveTo]) {
+    if (!boundary || boundary <= now) {
+      continue;
+    }
+
+    const queued = await db.backgroundJob.findFirst({
+      where: { shop, type: RECALCULATION_JOB_TYPE, status: "pending", attempts: 0, runAt: boundary },
+    });
+
+    if (!queued) {
+      await db.backgroundJob.create({
+        data: {
+          shop,
+          type: RECALCULATION_JOB_TYPE,
+          payload: JSON.stringify({}),
+          runAt: boundary,
+        },
+      });
+    }
+  }
+}
@@ -0,0 +1,182 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import type { ProcessedOrder } from "@prisma/client";
+import db from "../db.server";
+import { buildLineItemDeductions } from "./order-deductions.server";
+import type { LineItemDeduction } from "./order-deductions.server";
+import {
+  buildProportionalReversal,
+  getLedgerPositions,
+  hasLedgerSource,
+} from "./deduction-ledger.server";
+import { getRulesDate, getRulesInEffect } from "./rule-schedule.server";
+import {
+  beginOrderDeduction,
+  canAdjustProcessedOrder,
+  failOrderDeduction,
+  getDeductionProgress,
+  runOrderDeduction,
+} from "./order-processing.server";
+import type { DeductionOutcome } from "./order-processing.server";
+import { getErrorMessage, recordOrderIssue, resolveOrderIssues } from "./order-issues.server";
+import type { OrderIssueEvent } from "./order-issues.server";
+
+/**
+ * A line item quantity Shopify put back into stock (refund with restock or processed return)
+ */
+export interface RestockedLineItem {
+  lineItemId: string; // Numeric line item ID
+  variantId: number | null;
+  quantity: number;
+  locationId: string | null; // Location GID the units were restocked at (used for orders without a ledger)
+  unfulfilled?: boolean; // Units removed before they were fulfilled (refund restock_type "cancel")
+}
+
+/**
+ * Reverse the component deductions for restocked line item units.
+ *
+ * Shopify only restocks the ordered variant (e.g. one 6-pack), so for every restocked unit
+ * we take that unit back off the ordered variant and return its share of the recorded
+ * component deductions at the locations they were taken from, so the ledger keeps netting
+ * to zero per location. Each event is applied and recorded in the order's ledger under
+ * `source` in stages, so a retried webhook resumes its reversal instead of reversing twice
+ * and later cancellations only reverse the rest. A failed reversal is recorded as an order
+ * issue that replays `job`, and thrown.
+ *
+ * Returns the reversals applied, none when inventory wasn't adjusted.
+ */
+export async function reverseRestockedLineItems(
+  admin: AdminApiContext,
+  shop: string,
+  orderId: string,
+  restockedLineItems: RestockedLineItem[],
+  source: string,
+  referenceDocumentUri: string,
+  job: Pick<OrderIssueEvent, "jobType" | "payload">
+): Promise<LineItemDeduction[]> {
+  const processedOrder = await db.processedOrder.findUnique({
+    where: {
+      shop_orderId: {
+        shop,
+        orderId,
+      },
+    },
+  });
+
+  if (!processedOrder) {
+    console.log(`Order ${orderId} was not processed by our system, skipping restock reversal`);
+    return [];
+  }
+
+  if (!canAdjustProcessedOrder(processedOrder, source)) {
+    return [];
+  }
+
+  // A reversal that stopped part-way is resumed even if its ledger rows exist
+  if (
+    getDeductionProgress(processedOrder)?.source !== source &&
+    (await hasLedgerSource(processedOrder.id, source))
+  ) {
+    console.log(`${source} already reversed for order ${orderId}, skipping`);
+    return [];
+  }
+
+  const reversing = await beginOrderDeduction(processedOrder, source);
+
+  if (!reversing) {
+    // Retry the job once the other adjustment is done, so the restock isn't lost
+    throw new Error(`Order ${orderId} is being adjusted by another event`);
+  }
+
+  let outcome: DeductionOutcome;
+
+  try {
+    outcome = await runOrderDeduction(admin, shop, reversing, referenceDocumentUri, async () => ({
+      deductions: await buildRestockReversals(admin, shop, reversing, restockedLineItems),
+      shortfalls: [],
+      skipped: [],
+    }));
+  } catch (error) {
+    await failOrderDeduction(reversing.id, error);
+    await recordOrderIssue(
+      { shop, orderId, source, ...job },
+      "failed",
+      `Failed to reverse ${source}: ${getErrorMessage(error)}`
+    );
+    throw error;
+  }
+
+  if (!outcome.adjusted) {
+    console.log(`No component deductions to reverse for ${source} on order ${orderId}`);
+    return [];
+  }
+
+  await resolveOrderIssues(shop, orderId, "succeeded", source);
+
+  console.log(`Successfully reversed component deductions for ${source} on order ${orderId}`);
+  return outcome.deductions;
+}
+
+/**
+ * Build the reversals of restocked line item units: their share of the order's recorded
+ * deductions, or for orders processed before the ledger existed, deductions re-derived
+ * from the rules at the restock location
+ */
+async function buildRestockReversals(
+  admin: AdminApiContext,
+  shop: string,
+  processedOrder: ProcessedOrder,
+  restockedLineItems: RestockedLineItem[]
+): Promise<LineItemDeduction[]> {
+  const reversals: LineItemDeduction[] = [];
+  if (processedOrder.hasDeductionLedger) {
+    const positions = new Map(
+      (await getLedgerPositions(processedOrder.id)).map((position) => [position.lineItemId, position])
+    );
+
+    for (const restocked of restockedLineItems) {
+      // Fulfillment-based orders haven't deducted units that were never fulfilled
+      if (restocked.unfulfilled && processedOrder.deductionTrigger === "fulfillments/create") {
+        continue;
+      }
+      const position = positions.get(restocked.lineItemId);
+      if (!position) {
+        // Nothing was deducted for this line item
+        continue;
+      }
+      reversals.push(
+        ...buildProportionalReversal(position, restocked.quantity)
+      );
+    }
+  } else {
+    // Orders processed before the ledger existed: re-derive from the rules
+    const variantRules = await getRulesInEffect(shop, getRulesDate(processedOrder));
+
+    for (const restocked of restockedLineItems) {
+      if (!restocked.variantId || !restocked.locationId) {
+        continue;
+      }
+      const deductions = await buildLineItemDeductions(
+        admin,
+        variantRules,
+        [
+          {
+            id: Number(restocked.lineItemId),
+            variant_id: restocked.variantId,
+            quantity: restocked.quantity,
+            variant_inventory_management: "shopify",
+          },
+        ],
+        { allocations: new Map(), fallbackLocationId: restocked.locationId }
+      );
+      reversals.push(
+        ...deductions.map((deduction) => ({
+          ...deduction,
+          quantity: -deduction.quantity,
+          delta: -deduction.delta,
+        }))
+      );
+    }
+  }
+
+  return reversals;
+}
@@ -0,0 +1,247 @@
+import type { Session } from "@shopify/shopify-api";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import type { VariantRule, VariantRuleVersion } from "@prisma/client";
+import db from "../db.server";
+import { parseDeductionMappings } from "./bundle-expansion.server";
+import type { DeductionMapping } from "./bundle-expansion.server";
+import { parseChoiceVariantIds } from "./build-your-own.server";
+import { parseLocationMappings } from "./location-rules.server";
+import type { LocationMappings } from "./location-rules.server";
+import { validateRule } from "./rule-validation.server";
+
+export type RuleVersionAction = "create" | "update" | "delete" | "rollback";
+
+/**
+ * The configurable fields of a variant rule, as recorded in its version history
+ */
+export interface RuleSnapshot {
+  type: string | null;
+  deductionMappings: DeductionMapping[] | null;
+  locationMappings?: LocationMappings | null; // missing on versions recorded before location overrides
+  calculateInventoryForSelfMapping: boolean;
+  choiceVariantIds: string[] | null;
+  choiceCount: number | null;
+  quantityPerChoice: number | null;
+  effectiveFrom: string | null; // ISO timestamp
+  effectiveTo: string | null; // ISO timestamp
+  oversellPolicy?: string | null; // missing on versions recorded before oversell policies
+}
+
+export type RuleSnapshotField = keyof RuleSnapshot;
+
+/**
+ * A field that differs between two versions of a rule
+ */
+export interface RuleChange {
+  field: RuleSnapshotField;
+  before: RuleSnapshot[RuleSnapshotField] | null;
+  after: RuleSnapshot[RuleSnapshotField] | null;
+}
+
+const SNAPSHOT_FIELDS: RuleSnapshotField[] = [
+  "type",
+  "deductionMappings",
+  "locationMappings",
+  "calculateInventoryForSelfMapping",
+  "choiceVariantIds",
+  "choiceCount",
+  "quantityPerChoice",
+  "effectiveFrom",
+  "effectiveTo",
+  "oversellPolicy",
+];
+
+/**
+ * Capture the configurable fields of a rule
+ */
+export function toRuleSnapshot(rule: VariantRule): RuleSnapshot {
+  return {
+    type: rule.type,
+    deductionMappings: parseDeductionMappings(rule.deductionMappings),
+    locationMappings: rule.locationMappings ? parseLocationMappings(rule.locationMappings) : null,
+    calculateInventoryForSelfMapping: rule.calculateInventoryForSelfMapping,
+    choiceVariantIds: rule.choiceVariantIds ? parseChoiceVariantIds(rule.choiceVariantIds) : null,
+    choiceCount: rule.choiceCount,
+    quantityPerChoice: rule.quantityPerChoice,
+    effectiveFrom: rule.effectiveFrom?.toISOString() || null,
+    effectiveTo: rule.effectiveTo?.toISOString() || null,
+    oversellPolicy: rule.oversellPolicy,
+  };
+}
+
+/**
+ * Parse a snapshot stored on a rule version, or null when there is none
+ */
+export function parseRuleSnapshot(snapshot: string | null): RuleSnapshot | null {
+  if (!snapshot) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(snapshot) as RuleSnapshot;
+  } catch (error) {
+    console.error(`Error parsing rule snapshot: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * List the fields that differ between two snapshots. A missing snapshot (rule created or
+ * deleted) differs in every field that is set on the other one.
+ */
+export function diffRuleSnapshots(
+  before: RuleSnapshot | null,
+  after: RuleSnapshot | null
+): RuleChange[] {
+  return SNAPSHOT_FIELDS.map((field) => ({
+    field,
+    before: before ? before[field] ?? null : null,
+    after: after ? after[field] ?? null : null,
+  })).filter((change) => JSON.stringify(change.before) !== JSON.stringify(change.after));
+}
+
+/**
+ * Name the staff member making a change: the online session's user when there is one,
+ * otherwise the user ID from the embedded app's session token
+ */
+export function getChangedBy(
+  session: Pick<Session, "onlineAccessInfo">,
+  sessionToken?: { sub?: string }
+): string | null {
+  const user = session.onlineAccessInfo?.associated_user;
+  if (user) {
+    return [user.first_name, user.last_name].filter(Boolean).join(" ") || user.email || `Staff ${user.id}`;
+  }
+  return sessionToken?.sub ? `Staff ${sessionToken.sub.split("/").pop()}` : null;
+}
+
+/**
+ * Record a change to a variant rule. Versions are never updated or deleted.
+ */
+export async function recordRuleVersion(
+  shop: string,
+  action: RuleVersionAction,
+  before: VariantRule | null,
+  after: VariantRule | null,
+  changedBy: string | null
+): Promise<void> {
+  const rule = after || before;
+  if (!rule) {
+    return;
+  }
+
+  await db.variantRuleVersion.create({
+    data: {
+      shop,
+      ruleId: rule.id,
+      variantId: rule.variantId,
+      action,
+      before: before ? JSON.stringify(toRuleSnapshot(before)) : null,
+      after: after ? JSON.stringify(toRuleSnapshot(after)) : null,
+      changedBy,
+    },
+  });
+}
+
+/**
+ * Get the most recent changes to the rules of a variant, newest first
+ */
+export async function getRuleHistory(
+  shop: string,
+  variantId: string,
+  limit = 50
+): Promise<VariantRuleVersion[]> {
+  return db.variantRuleVersion.findMany({
+    where: { shop, variantId },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+}
+
+/**
+ * Restore a rule to the state a version left it in. Restoring a deletion brings back
+ * the rule as it was before it was deleted.
+ *
+ * The restored rule goes through the same validation as a save, against the catalog and
+ * the shop's current rules, and the rollback is recorded as a new version. Returns the rule
+ * before and after the rollback.
+ */
+export async function rollbackRuleVersion(
+  admin: AdminApiContext,
+  shop: string,
+  versionId: string,
+  changedBy: string | null
+): Promise<{ error: string } | { previous: VariantRule | null; restored: VariantRule }> {
+  const version = await db.variantRuleVersion.findFirst({
+    where: { id: versionId, shop },
+  });
+
+  if (!version) {
+    return { error: "Version not found" };
+  }
+
+  const snapshot = parseRuleSnapshot(version.after) || parseRuleSnapshot(version.before);
+  if (!snapshot) {
+    return { error: "This version can't be restored" };
+  }
+
+  const existingRules = await db.variantRule.findMany({
+    where: { shop },
+  });
+  const previous = existingRules.find((rule) => rule.id === version.ruleId) || null;
+  const otherRules = existingRules.filter((rule) => rule.id !== version.ruleId);
+
+  const fields = {
+    type: snapshot.type,
+    deductionMappings: snapshot.deductionMappings ? JSON.stringify(snapshot.deductionMappings) : null,
+    locationMappings: snapshot.locationMappings ? JSON.stringify(snapshot.locationMappings) : null,
+    calculateInventoryForSelfMapping: snapshot.calculateInventoryForSelfMapping,
+    choiceVariantIds: snapshot.choiceVariantIds ? JSON.stringify(snapshot.choiceVariantIds) : null,
+    choiceCount: snapshot.choiceCount,
+    quantityPerChoice: snapshot.quantityPerChoice,
+    effectiveFrom: snapshot.effectiveFrom ? new Date(snapshot.effectiveFrom) : null,
+    effectiveTo: snapshot.effectiveTo ? new Date(snapshot.effectiveTo) : null,
+    oversellPolicy: snapshot.oversellPolicy ?? null,
+  };
+
+  // The catalog and other rules may have changed since, so the version must still be valid
+  const validation = await validateRule(
+    admin,
+    shop,
+    {
+      variantId: version.variantId,
+      type: snapshot.type,
+      deductionMappings: snapshot.deductionMappings || [],
+      locationMappings: snapshot.locationMappings || {},
+      choiceVariantIds: snapshot.choiceVariantIds || [],
+      choiceCount: snapshot.choiceCount,
+      quantityPerChoice: snapshot.quantityPerChoice,
+      effectiveFrom: fields.effectiveFrom,
+      effectiveTo: fields.effectiveTo,
+      oversellPolicy: fields.oversellPolicy,
+    },
+    otherRules
+  );
+
+  if ("error" in validation) {
+    return { error: `This version can't be restored: ${validation.error}` };
+  }
+
+  const restored = previous
+    ? await db.variantRule.update({
+        where: { id: previous.id },
+        data: fields,
+      })
+    : await db.variantRule.create({
+        data: {
+          id: version.ruleId,
+          shop,
+          variantId: version.variantId,
+          ...fields,
+        },
+      });
+
+  await recordRuleVersion(shop, "rollback", previous, restored, changedBy);
+
+  return { previous, restored };
+}
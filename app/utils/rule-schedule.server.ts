@@ -0,0 +1,200 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import type { ProcessedOrder, VariantRule } from "@prisma/client";
+import db from "../db.server";
+
+type ScheduledRule = Pick<VariantRule, "variantId" | "effectiveFrom" | "effectiveTo">;
+
+/**
+ * Whether a rule only applies within a window, as opposed to the variant's standing rule
+ */
+export function isScheduledRule(rule: Pick<VariantRule, "effectiveFrom" | "effectiveTo">): boolean {
+  return Boolean(rule.effectiveFrom || rule.effectiveTo);
+}
+
+/**
+ * Whether a rule is in effect at `at`. Windows include their start and exclude their end.
+ */
+export function isRuleInEffect(
+  rule: Pick<VariantRule, "effectiveFrom" | "effectiveTo">,
+  at: Date
+): boolean {
+  return (
+    (!rule.effectiveFrom || rule.effectiveFrom <= at) &&
+    (!rule.effectiveTo || at < rule.effectiveTo)
+  );
+}
+
+/**
+ * Pick the rule in effect at `at` for every variant.
+ *
+ * A variant may have one standing rule (no window) and any number of scheduled rules whose
+ * windows don't overlap. While a scheduled rule's window is open it replaces the standing
+ * rule, e.g. a holiday composition in December; outside its windows the standing rule applies.
+ */
+export function selectRulesInEffect<T extends ScheduledRule>(rules: T[], at: Date): T[] {
+  const selected = new Map<string, T>();
+
+  for (const rule of rules) {
+    if (!isRuleInEffect(rule, at)) {
+      continue;
+    }
+
+    const current = selected.get(rule.variantId);
+    if (!current || (isScheduledRule(rule) && !isScheduledRule(current))) {
+      selected.set(rule.variantId, rule);
+    }
+  }
+
+  return Array.from(selected.values());
+}
+
+/**
+ * Load a shop's variant rules in effect at `at`
+ */
+export async function getRulesInEffect(shop: string, at: Date): Promise<VariantRule[]> {
+  const variantRules = await db.variantRule.findMany({
+    where: { shop },
+  });
+
+  return selectRulesInEffect(variantRules, at);
+}
+
+/**
+ * Find a rule of the same variant that would be in effect at the same time as `candidate`.
+ *
+ * Standing rules conflict with each other, scheduled rules conflict when their windows overlap.
+ */
+export function findOverlappingRule<T extends ScheduledRule>(
+  rules: T[],
+  candidate: ScheduledRule
+): T | null {
+  const candidateFrom = candidate.effectiveFrom?.getTime() ?? -Infinity;
+  const candidateTo = candidate.effectiveTo?.getTime() ?? Infinity;
+
+  return (
+    rules.find((rule) => {
+      if (rule.variantId !== candidate.variantId || isScheduledRule(rule) !== isScheduledRule(candidate)) {
+        return false;
+      }
+      const from = rule.effectiveFrom?.getTime() ?? -Infinity;
+      const to = rule.effectiveTo?.getTime() ?? Infinity;
+      return from < candidateTo && candidateFrom < to;
+    }) || null
+  );
+}
+
+/**
+ * Get the time an order was placed from its webhook payload, which selects the rules
+ * the order is deducted with. Falls back to now when the payload has no timestamps.
+ */
+export function getOrderProcessedAt(order: {
+  processed_at?: string | null;
+  created_at?: string | null;
+}): Date {
+  const processedAt = new Date(order.processed_at || order.created_at || Date.now());
+  return Number.isNaN(processedAt.getTime()) ? new Date() : processedAt;
+}
+
+/**
+ * Get the time that selects the rules a processed order is deducted with.
+ * Orders processed before schedules existed use the time they were processed by the app.
+ */
+export function getRulesDate(
+  processedOrder: Pick<ProcessedOrder, "orderProcessedAt" | "createdAt">
+): Date {
+  return processedOrder.orderProcessedAt || processedOrder.createdAt;
+}
+
+/**
+ * Look up when an order was placed, for events whose payload doesn't include it
+ */
+export async function fetchOrderProcessedAt(
+  admin: AdminApiContext,
+  orderGid: string
+): Promise<Date> {
+  const response = await admin.graphql(
+    `#graphql
+      query getOrderProcessedAt($id: ID!) {
+        order(id: $id) {
+          processedAt
+        }
+      }
+    `,
+    {
+      variables: {
+        id: orderGid,
+      },
+    }
+  );
+
+  const data = await response.json();
+  return getOrderProcessedAt({ processed_at: data.data?.order?.processedAt });
+}
+
+/**
+ * Get the shop's time zone, in which rule windows start and end at midnight
+ */
+export async function getShopTimeZone(admin: AdminApiContext): Promise<string> {
+  const response = await admin.graphql(
+    `#graphql
+      query getShopTimeZone {
+        shop {
+          ianaTimezone
+        }
+      }
+    `
+  );
+
+  const data = await response.json();
+  return data.data?.shop?.ianaTimezone || "UTC";
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ */
+function getTimeZoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+
+  const wallClock = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Get the instant a calendar date (YYYY-MM-DD), plus `addDays`, starts in a time zone.
+ * Returns null for malformed dates.
+ */
+export function getStartOfDay(date: string, timeZone: string, addDays = 0): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+  if (!match) {
+    return null;
+  }
+
+  const midnight = Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]) + addDays);
+  const offset = getTimeZoneOffset(midnight, timeZone);
+  // The offset may differ at the resulting instant around daylight saving changes
+  const correctedOffset = getTimeZoneOffset(midnight - offset, timeZone);
+
+  return new Date(midnight - correctedOffset);
+}
+
+/**
+ * Format an instant as the calendar date (YYYY-MM-DD) it falls on in a time zone
+ */
+export function formatDateInTimeZone(instant: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(instant);
+}
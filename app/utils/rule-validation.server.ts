@@ -0,0 +1,235 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import type { VariantRule } from "@prisma/client";
+import { getAllActiveLocations } from "./inventory-calculation.server";
+import { buildBundleMappings, isNestedBundle } from "./bundle-expansion.server";
+import type { DeductionMapping } from "./bundle-expansion.server";
+import { isBuildYourOwnRule } from "./build-your-own.server";
+import { getVariantsById } from "./variant-catalog.server";
+import type { CatalogVariant } from "./variant-catalog.server";
+import { findOverlappingRule, isScheduledRule } from "./rule-schedule.server";
+import { isOversellPolicy } from "./shop-settings.server";
+import { getComponentUnits } from "./component-units.server";
+import {
+  findLocationBundleCycle,
+  getOverrideLocationIds,
+  getRulesAtLocation,
+} from "./location-rules.server";
+import type { LocationMappings } from "./location-rules.server";
+
+/**
+ * The configurable fields of a rule about to be saved or restored
+ */
+export interface RuleCandidate {
+  variantId: string;
+  type: string | null;
+  deductionMappings: DeductionMapping[];
+  locationMappings: LocationMappings;
+  choiceVariantIds: string[];
+  choiceCount: number | null;
+  quantityPerChoice: number | null;
+  effectiveFrom: Date | null;
+  effectiveTo: Date | null;
+  oversellPolicy: string | null;
+}
+
+/**
+ * Check the deduction mappings of a rule, or of one of its location overrides.
+ * Returns the error to show, or null when they are valid.
+ */
+function validateDeductionMappings(variantId: string, mappings: DeductionMapping[]): string | null {
+  for (const mapping of mappings) {
+    if (
+      !mapping.targetVariantId ||
+      typeof mapping.multiplier !== "number" ||
+      !Number.isFinite(mapping.multiplier) ||
+      mapping.multiplier <= 0
+    ) {
+      return "Each mapping must have a valid target variant and a multiplier greater than 0";
+    }
+    if (
+      mapping.substitutes !== undefined &&
+      (!Array.isArray(mapping.substitutes) ||
+        mapping.substitutes.some((id) => !id || typeof id !== "string") ||
+        new Set([mapping.targetVariantId, ...mapping.substitutes]).size !== mapping.substitutes.length + 1)
+    ) {
+      return "Substitutes must be different variants from the target and from each other";
+    }
+    if (mapping.substitutes?.includes(variantId)) {
+      return "A variant can't be a substitute in its own rule";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check a rule against the catalog, the shop's components and its other rules before it is
+ * saved or restored: its mappings and overrides, the units and inventory tracking of its
+ * targets, its build-your-own picker, its schedule, bundle cycles and substitutes.
+ *
+ * Returns the first problem found, or the catalog variants the rule refers to.
+ */
+export async function validateRule(
+  admin: AdminApiContext,
+  shop: string,
+  rule: RuleCandidate,
+  otherRules: VariantRule[]
+): Promise<{ error: string } | { variants: Map<string, CatalogVariant> }> {
+  const { variantId, deductionMappings, locationMappings, choiceVariantIds } = rule;
+  const isBox = isBuildYourOwnRule(rule);
+
+  try {
+    // Build-your-own boxes may consist of picks only, and legacy rule types of no mappings at all
+    if (!Array.isArray(deductionMappings) || (deductionMappings.length === 0 && !isBox && !rule.type)) {
+      return { error: "At least one deduction mapping is required" };
+    }
+    if (!locationMappings || typeof locationMappings !== "object" || Array.isArray(locationMappings)) {
+      return { error: "Invalid location overrides format" };
+    }
+    if (Object.values(locationMappings).some((mappings) => !Array.isArray(mappings) || mappings.length === 0)) {
+      return { error: "Each location override needs at least one deduction mapping" };
+    }
+    for (const mappings of [deductionMappings, ...Object.values(locationMappings)]) {
+      const mappingsError = validateDeductionMappings(variantId, mappings);
+      if (mappingsError) {
+        return { error: mappingsError };
+      }
+    }
+  } catch (error) {
+    return { error: "Invalid deduction mappings format" };
+  }
+
+  // Overrides apply to the fulfillment locations of orders, and to bundle counts per location
+  const overrideLocationIds = Object.keys(locationMappings);
+  if (overrideLocationIds.length > 0) {
+    const activeLocationIds = new Set((await getAllActiveLocations(admin)).map((location) => location.id));
+    if (overrideLocationIds.some((locationId) => !activeLocationIds.has(locationId))) {
+      return { error: "Location overrides can only be set for active locations" };
+    }
+  }
+  const allMappings = [...deductionMappings, ...Object.values(locationMappings).flat()];
+
+  // Mappings in base units must match how their target is stocked now
+  if (allMappings.some((mapping) => mapping.unitSize !== undefined)) {
+    const unitSizes = new Map(
+      (await getComponentUnits(shop)).map((unit) => [unit.variantId, unit.unitSize])
+    );
+    if (
+      allMappings.some(
+        (mapping) => mapping.unitSize !== undefined && unitSizes.get(mapping.targetVariantId) !== mapping.unitSize
+      )
+    ) {
+      return { error: "A component's unit changed since this rule was edited. Choose its unit again." };
+    }
+  }
+
+  // Validate the build-your-own box picker
+  if (isBox) {
+    if (
+      !Array.isArray(choiceVariantIds) ||
+      choiceVariantIds.length === 0 ||
+      choiceVariantIds.some((id) => typeof id !== "string")
+    ) {
+      return { error: "At least one allowed variant is required for a build-your-own box" };
+    }
+    if (choiceVariantIds.includes(variantId)) {
+      return { error: "A build-your-own box can't be one of its own picks" };
+    }
+    if (!Number.isInteger(rule.choiceCount) || (rule.choiceCount || 0) < 1) {
+      return { error: "Number of picks must be a whole number of at least 1" };
+    }
+    if (!Number.isFinite(rule.quantityPerChoice) || (rule.quantityPerChoice || 0) <= 0) {
+      return { error: "Quantity per pick must be greater than 0" };
+    }
+  }
+
+  // Targets can be any variant in the catalog, as long as it exists and tracks inventory
+  const substituteIds = allMappings.flatMap((mapping) => mapping.substitutes || []);
+  const referencedVariantIds = [
+    ...allMappings.map((mapping) => mapping.targetVariantId),
+    ...substituteIds,
+    ...choiceVariantIds,
+  ];
+  const catalogVariants = new Map(
+    (await getVariantsById(admin, referencedVariantIds)).map((catalogVariant) => [catalogVariant.id, catalogVariant])
+  );
+
+  for (const targetVariantId of referencedVariantIds) {
+    const targetVariant = catalogVariants.get(targetVariantId);
+    if (!targetVariant) {
+      return { error: `Variant ${targetVariantId.split("/").pop()} no longer exists` };
+    }
+    if (!targetVariant.tracked) {
+      return {
+        error: `${targetVariant.productTitle} - ${targetVariant.title} doesn't track inventory, so it can't be deducted from`,
+      };
+    }
+  }
+
+  if (rule.effectiveFrom && rule.effectiveTo && rule.effectiveFrom >= rule.effectiveTo) {
+    return { error: "The effective end date must not be before the start date" };
+  }
+
+  // The theme block shows one picker per variant, so boxes can't switch composition
+  const variantRules = otherRules.filter((otherRule) => otherRule.variantId === variantId);
+  if (
+    (isBox && (isScheduledRule(rule) || variantRules.some(isScheduledRule))) ||
+    (isScheduledRule(rule) && variantRules.some(isBuildYourOwnRule))
+  ) {
+    return { error: "Build-your-own boxes can't have scheduled rules" };
+  }
+
+  const overlappingRule = findOverlappingRule(otherRules, rule);
+  if (overlappingRule) {
+    return {
+      error: isScheduledRule(rule)
+        ? "This schedule overlaps another scheduled rule for this variant"
+        : "This variant already has a rule without a schedule",
+    };
+  }
+
+  const proposedRule = {
+    deductionMappings: deductionMappings.length > 0 ? JSON.stringify(deductionMappings) : null,
+    locationMappings: overrideLocationIds.length > 0 ? JSON.stringify(locationMappings) : null,
+  };
+
+  // Mappings may target other bundles, but the tree must end in stocked components at every location
+  const cycle = findLocationBundleCycle(
+    variantId,
+    proposedRule,
+    otherRules,
+    choiceVariantIds.map((targetVariantId) => ({ targetVariantId, multiplier: 1 }))
+  );
+  if (cycle) {
+    return {
+      error: `Deduction mappings would create a cycle: ${cycle
+        .map((id) => id.split("/").pop())
+        .join(" → ")}`,
+    };
+  }
+
+  // Substitutes stand in for stocked components, and are deducted directly
+  for (const locationId of [null, ...getOverrideLocationIds([proposedRule, ...otherRules])]) {
+    const otherBundleMappings = buildBundleMappings(
+      locationId ? getRulesAtLocation(otherRules, locationId) : otherRules
+    );
+    for (const mapping of (locationId && locationMappings[locationId]) || deductionMappings) {
+      if (!mapping.substitutes || mapping.substitutes.length === 0) {
+        continue;
+      }
+      if (isNestedBundle(mapping.targetVariantId, otherBundleMappings)) {
+        return { error: "Substitutes can only be set for stocked components, not for bundles" };
+      }
+      if (mapping.substitutes.some((substituteId) => isNestedBundle(substituteId, otherBundleMappings))) {
+        return { error: "A bundle can't be used as a substitute" };
+      }
+    }
+  }
+
+  // An empty policy follows the shop's setting
+  if (rule.oversellPolicy && !isOversellPolicy(rule.oversellPolicy)) {
+    return { error: "Invalid oversell policy" };
+  }
+
+  return { variants: catalogVariants };
+}
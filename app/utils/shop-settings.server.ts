@@ -0,0 +1,132 @@
+import db from "../db.server";
+
+/**
+ * Order events that can deduct components, in order lifecycle order
+ */
+export const DEDUCTION_TRIGGERS = ["orders/create", "orders/paid", "fulfillments/create"] as const;
+
+export type DeductionTrigger = (typeof DEDUCTION_TRIGGERS)[number];
+
+export const DEFAULT_DEDUCTION_TRIGGER: DeductionTrigger = "orders/paid";
+
+/**
+ * What to do when an order deducts more of a component than is available:
+ * let stock go negative, stop at zero, or stop at zero and tag the order as oversold.
+ * Every shortfall is recorded whatever the policy.
+ */
+export const OVERSELL_POLICIES = ["allow_negative", "clamp", "clamp_and_alert"] as const;
+
+export type OversellPolicy = (typeof OVERSELL_POLICIES)[number];
+
+export const DEFAULT_OVERSELL_POLICY: OversellPolicy = "clamp";
+
+export interface ShopSettingsValues {
+  locationPriority: string[]; // Location IDs, tried in order when a line item has no fulfillment location
+  deductionTrigger: DeductionTrigger;
+  oversellPolicy: OversellPolicy;
+}
+
+export function isDeductionTrigger(value: unknown): value is DeductionTrigger {
+  return DEDUCTION_TRIGGERS.includes(value as DeductionTrigger);
+}
+
+export function isOversellPolicy(value: unknown): value is OversellPolicy {
+  return OVERSELL_POLICIES.includes(value as OversellPolicy);
+}
+
+/**
+ * Parse a JSON array of strings stored in a settings column
+ */
+function parseStringArray(value: string | null | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed)
+      ? parsed.filter((item): item is string => typeof item === "string")
+      : [];
+  } catch (error) {
+    console.error(`Error parsing shop setting: ${error}`);
+    return [];
+  }
+}
+
+/**
+ * Get the settings for a shop, falling back to defaults when none are saved
+ */
+export async function getShopSettings(shop: string): Promise<ShopSettingsValues> {
+  const settings = await db.shopSettings.findUnique({
+    where: { shop },
+  });
+
+  return {
+    locationPriority: parseStringArray(settings?.locationPriority),
+    deductionTrigger: isDeductionTrigger(settings?.deductionTrigger)
+      ? settings.deductionTrigger
+      : DEFAULT_DEDUCTION_TRIGGER,
+    oversellPolicy: isOversellPolicy(settings?.oversellPolicy)
+      ? settings.oversellPolicy
+      : DEFAULT_OVERSELL_POLICY,
+  };
+}
+
+/**
+ * Save the location priority list for a shop
+ */
+export async function saveLocationPriority(
+  shop: string,
+  locationPriority: string[]
+): Promise<void> {
+  const value = JSON.stringify(locationPriority);
+
+  await db.shopSettings.upsert({
+    where: { shop },
+    create: {
+      shop,
+      locationPriority: value,
+    },
+    update: {
+      locationPriority: value,
+    },
+  });
+}
+
+/**
+ * Save the order event that deducts components for a shop
+ */
+export async function saveDeductionTrigger(
+  shop: string,
+  deductionTrigger: DeductionTrigger
+): Promise<void> {
+  await db.shopSettings.upsert({
+    where: { shop },
+    create: {
+      shop,
+      deductionTrigger,
+    },
+    update: {
+      deductionTrigger,
+    },
+  });
+}
+
+/**
+ * Save the shop's default oversell policy
+ */
+export async function saveOversellPolicy(
+  shop: string,
+  oversellPolicy: OversellPolicy
+): Promise<void> {
+  await db.shopSettings.upsert({
+    where: { shop },
+    create: {
+      shop,
+      oversellPolicy,
+    },
+    update: {
+      oversellPolicy,
+    },
+  });
+}
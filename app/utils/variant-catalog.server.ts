@@ -0,0 +1,199 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+
+/**
+ * A variant as shown in the mapping editor's variant picker
+ */
+export interface CatalogVariant {
+  id: string;
+  title: string;
+  sku: string | null;
+  productTitle: string;
+  inventoryQuantity: number | null;
+  tracked: boolean;
+}
+
+export interface VariantSearchResult {
+  variants: CatalogVariant[];
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+interface VariantNode {
+  id: string;
+  title: string;
+  sku: string | null;
+  inventoryQuantity: number | null;
+  product: { title: string };
+  inventoryItem: { tracked: boolean } | null;
+}
+
+// Variants per search page in the picker
+const SEARCH_PAGE_SIZE = 25;
+
+// Maximum number of IDs the nodes query accepts
+const NODES_PAGE_SIZE = 250;
+
+function toCatalogVariant(node: VariantNode): CatalogVariant {
+  return {
+    id: node.id,
+    title: node.title,
+    sku: node.sku,
+    productTitle: node.product.title,
+    inventoryQuantity: node.inventoryQuantity,
+    tracked: node.inventoryItem?.tracked || false,
+  };
+}
+
+/**
+ * Search the whole catalog for variants by product title, variant title or SKU, one page at a time
+ */
+export async function searchVariants(
+  admin: AdminApiContext,
+  query: string,
+  after: string | null
+): Promise<VariantSearchResult> {
+  const response = await admin.graphql(
+    `#graphql
+      query searchVariants($first: Int!, $after: String, $query: String) {
+        productVariants(first: $first, after: $after, query: $query) {
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+          edges {
+            node {
+              id
+              title
+              sku
+              inventoryQuantity
+              product {
+                title
+              }
+              inventoryItem {
+                tracked
+              }
+            }
+          }
+        }
+      }
+    `,
+    {
+      variables: {
+        first: SEARCH_PAGE_SIZE,
+        after,
+        query: query.trim() || null,
+      },
+    }
+  );
+
+  const data = await response.json();
+  const connection = data.data?.productVariants;
+
+  return {
+    variants: (connection?.edges || []).map((edge: { node: VariantNode }) => toCatalogVariant(edge.node)),
+    hasNextPage: connection?.pageInfo?.hasNextPage || false,
+    endCursor: connection?.pageInfo?.endCursor || null,
+  };
+}
+
+/**
+ * Look up variants by ID. Variants that don't exist (e.g. deleted) are left out.
+ */
+export async function getVariantsById(
+  admin: AdminApiContext,
+  variantIds: string[]
+): Promise<CatalogVariant[]> {
+  const ids = Array.from(new Set(variantIds));
+  const variants: CatalogVariant[] = [];
+
+  for (let start = 0; start < ids.length; start += NODES_PAGE_SIZE) {
+    const response = await admin.graphql(
+      `#graphql
+        query getVariantsById($ids: [ID!]!) {
+          nodes(ids: $ids) {
+            ... on ProductVariant {
+              id
+              title
+              sku
+              inventoryQuantity
+              product {
+                title
+              }
+              inventoryItem {
+                tracked
+              }
+            }
+          }
+        }
+      `,
+      {
+        variables: {
+          ids: ids.slice(start, start + NODES_PAGE_SIZE),
+        },
+      }
+    );
+
+    const data = await response.json();
+    const nodes: Array<VariantNode | null> = data.data?.nodes || [];
+    variants.push(
+      ...nodes
+        .filter((node): node is VariantNode => Boolean(node?.id && node.product))
+        .map(toCatalogVariant)
+    );
+  }
+
+  return variants;
+}
+
+/**
+ * Look up the variants of inventory items, keyed by inventory item ID.
+ * Inventory items whose variant doesn't exist are left out.
+ */
+export async function getVariantsByInventoryItemId(
+  admin: AdminApiContext,
+  inventoryItemIds: string[]
+): Promise<Map<string, CatalogVariant>> {
+  const ids = Array.from(new Set(inventoryItemIds));
+  const variants = new Map<string, CatalogVariant>();
+
+  for (let start = 0; start < ids.length; start += NODES_PAGE_SIZE) {
+    const response = await admin.graphql(
+      `#graphql
+        query getVariantsByInventoryItemId($ids: [ID!]!) {
+          nodes(ids: $ids) {
+            ... on InventoryItem {
+              id
+              variant {
+                id
+                title
+                sku
+                inventoryQuantity
+                product {
+                  title
+                }
+                inventoryItem {
+                  tracked
+                }
+              }
+            }
+          }
+        }
+      `,
+      {
+        variables: {
+          ids: ids.slice(start, start + NODES_PAGE_SIZE),
+        },
+      }
+    );
+
+    const data = await response.json();
+    const nodes: Array<{ id: string; variant: VariantNode | null } | null> = data.data?.nodes || [];
+    for (const node of nodes) {
+      if (node?.id && node.variant?.product) {
+        variants.set(node.id, toCatalogVariant(node.variant));
+      }
+    }
+  }
+
+  return variants;
+}
@@ -0,0 +1,15 @@
+import { startJobWorker, stopJobWorker } from "./jobs/worker.server";
+
+/**
+ * Entry point of a standalone job worker, for running webhook processing in its own process
+ * (npm run build:worker && npm run worker). Set JOB_WORKER=external on the web process so it
+ * only queues jobs.
+ */
+startJobWorker();
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.once(signal, async () => {
+    await stopJobWorker();
+    process.exit(0);
+  });
+}
@@ -0,0 +1,122 @@
+(() => {
+  /**
+   * Find the add-to-cart form of the product section the block is placed in
+   */
+  function findProductForm(root) {
+    const section = root.closest(".shopify-section") || document;
+    return (
+      document.getElementById(`product-form-${root.dataset.sectionId}`) ||
+      section.querySelector('form[action*="/cart/add"]')
+    );
+  }
+
+  /**
+   * Read the picker published for each box variant, keyed by numeric variant ID
+   */
+  function readPickers(root) {
+    const pickers = new Map();
+
+    root.querySelectorAll("[data-build-your-own-box-variant]").forEach((script) => {
+      try {
+        pickers.set(script.dataset.buildYourOwnBoxVariant, JSON.parse(script.textContent));
+      } catch (error) {
+        console.error("Invalid build-your-own box configuration", error);
+      }
+    });
+
+    return pickers;
+  }
+
+  function initBuildYourOwnBox(root) {
+    const form = findProductForm(root);
+    if (!form) {
+      return;
+    }
+
+    if (!form.id) {
+      form.id = `build-your-own-box-form-${root.dataset.sectionId}`;
+    }
+
+    const pickers = readPickers(root);
+    const picksContainer = root.querySelector("[data-build-your-own-box-picks]");
+    const error = root.querySelector("[data-build-your-own-box-error]");
+    let renderedVariantId = null;
+
+    const getVariantId = () => form.querySelector('[name="id"]')?.value || "";
+
+    // Selects are associated with the product form, so their values are added as
+    // line item properties; they are removed for variants that aren't boxes
+    const render = () => {
+      const variantId = getVariantId();
+      if (variantId === renderedVariantId) {
+        return;
+      }
+      renderedVariantId = variantId;
+
+      const picker = pickers.get(variantId);
+      picksContainer.replaceChildren();
+      error.hidden = true;
+      root.hidden = !picker;
+
+      if (!picker) {
+        return;
+      }
+
+      for (let number = 1; number <= picker.choiceCount; number++) {
+        const selectId = `${form.id}-${picker.propertyPrefix}${number}`;
+
+        const wrapper = document.createElement("div");
+        wrapper.className = "build-your-own-box__pick";
+
+        const label = document.createElement("label");
+        label.htmlFor = selectId;
+        label.textContent = root.dataset.pickLabel.replace("__number__", number);
+
+        const select = document.createElement("select");
+        select.id = selectId;
+        select.name = `properties[${picker.propertyPrefix}${number}]`;
+        select.setAttribute("form", form.id);
+        select.required = true;
+
+        const placeholder = document.createElement("option");
+        placeholder.value = "";
+        placeholder.textContent = root.dataset.placeholder;
+        select.append(placeholder);
+
+        for (const option of picker.options) {
+          const element = document.createElement("option");
+          element.value = option.id;
+          element.textContent = option.title;
+          select.append(element);
+        }
+
+        wrapper.append(label, select);
+        picksContainer.append(wrapper);
+      }
+    };
+
+    // Themes update the selected variant after their own change handlers run
+    document.addEventListener("change", () => setTimeout(render));
+    document.addEventListener("variant:change", () => setTimeout(render));
+
+    // Themes that submit the form with fetch skip native validation, so check the picks here
+    form.addEventListener(
+      "submit",
+      (event) => {
+        const incomplete = Array.from(picksContainer.querySelectorAll("select")).some(
+          (select) => !select.value
+        );
+        error.hidden = !incomplete;
+        if (incomplete) {
+          event.preventDefault();
+          event.stopImmediatePropagation();
+        }
+      },
+      true
+    );
+
+    render();
+  }
+
+  document.querySelectorAll("[data-build-your-own-box]").forEach(initBuildYourOwnBox);
+})();
@@ -0,0 +1,26 @@
+-- AlterTable: Orders processed before this migration have no ledger rows
+ALTER TABLE "ProcessedOrder" ADD COLUMN "hasDeductionLedger" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "ProcessedOrder" ALTER COLUMN "hasDeductionLedger" SET DEFAULT true;
+
+-- CreateTable
+CREATE TABLE "OrderDeduction" (
+    "id" TEXT NOT NULL,
+    "processedOrderId" TEXT NOT NULL,
+    "lineItemId" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "inventoryItemId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "delta" INTEGER NOT NULL,
+    "ruleSnapshot" TEXT,
+    "adjustmentGroupId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderDeduction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderDeduction_processedOrderId_idx" ON "OrderDeduction"("processedOrderId");
+
+-- AddForeignKey
+ALTER TABLE "OrderDeduction" ADD CONSTRAINT "OrderDeduction_processedOrderId_fkey" FOREIGN KEY ("processedOrderId") REFERENCES "ProcessedOrder"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable: Existing ledger rows were all written by the orders/paid handler
+ALTER TABLE "OrderDeduction" ADD COLUMN "source" TEXT NOT NULL DEFAULT 'orders/paid';
+ALTER TABLE "OrderDeduction" ALTER COLUMN "source" DROP DEFAULT;
+
+-- CreateIndex
+CREATE INDEX "OrderDeduction_processedOrderId_source_idx" ON "OrderDeduction"("processedOrderId", "source");
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "ShopSettings" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "locationPriority" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShopSettings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShopSettings_shop_key" ON "ShopSettings"("shop");
+
+-- Data: a line item can now be split across locations, so its units are carried by
+-- one row per location and event instead of being repeated on every row
+UPDATE "OrderDeduction" d SET "quantity" = 0
+WHERE d."id" <> (
+    SELECT MIN(o."id") FROM "OrderDeduction" o
+    WHERE o."processedOrderId" = d."processedOrderId"
+      AND o."lineItemId" = d."lineItemId"
+      AND o."source" = d."source"
+      AND o."locationId" = d."locationId"
+);
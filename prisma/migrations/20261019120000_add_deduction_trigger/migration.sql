@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ProcessedOrder" ADD COLUMN     "deductionTrigger" TEXT NOT NULL DEFAULT 'orders/paid';
+
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN     "deductionTrigger" TEXT;
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "OrderDeduction" ALTER COLUMN "delta" SET DATA TYPE DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "ComponentRemainder" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "inventoryItemId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "remainder" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ComponentRemainder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ComponentRemainder_shop_idx" ON "ComponentRemainder"("shop");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ComponentRemainder_shop_inventoryItemId_locationId_key" ON "ComponentRemainder"("shop", "inventoryItemId", "locationId");
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "VariantRule" ADD COLUMN     "choiceCount" INTEGER,
+ADD COLUMN     "choiceVariantIds" TEXT,
+ADD COLUMN     "quantityPerChoice" DOUBLE PRECISION;
@@ -0,0 +1,12 @@
+-- DropIndex
+DROP INDEX "VariantRule_shop_variantId_key";
+
+-- AlterTable
+ALTER TABLE "VariantRule" ADD COLUMN     "effectiveFrom" TIMESTAMP(3),
+ADD COLUMN     "effectiveTo" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "ProcessedOrder" ADD COLUMN     "orderProcessedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "VariantRule_shop_variantId_idx" ON "VariantRule"("shop", "variantId");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "VariantRuleVersion" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "before" TEXT,
+    "after" TEXT,
+    "changedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VariantRuleVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "VariantRuleVersion_shop_variantId_idx" ON "VariantRuleVersion"("shop", "variantId");
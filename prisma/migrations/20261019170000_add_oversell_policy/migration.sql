@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "VariantRule" ADD COLUMN     "oversellPolicy" TEXT;
+
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN     "oversellPolicy" TEXT;
+
+-- CreateTable
+CREATE TABLE "InventoryShortfall" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "lineItemId" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "inventoryItemId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "requested" DOUBLE PRECISION NOT NULL,
+    "shortfall" DOUBLE PRECISION NOT NULL,
+    "policy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "InventoryShortfall_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InventoryShortfall_shop_createdAt_idx" ON "InventoryShortfall"("shop", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "InventoryShortfall_shop_orderId_idx" ON "InventoryShortfall"("shop", "orderId");
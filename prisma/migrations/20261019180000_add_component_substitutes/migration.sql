@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "OrderDeduction" ADD COLUMN     "substituteForVariantId" TEXT;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "ProcessedOrder" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastError" TEXT,
+ADD COLUMN     "progress" TEXT,
+ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'applied',
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateIndex
+CREATE INDEX "ProcessedOrder_shop_status_idx" ON "ProcessedOrder"("shop", "status");
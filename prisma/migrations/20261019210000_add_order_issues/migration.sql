@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "OrderIssue" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "jobType" TEXT,
+    "payload" TEXT,
+    "resolution" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OrderIssue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderIssue_shop_orderId_source_key" ON "OrderIssue"("shop", "orderId", "source");
+
+-- CreateIndex
+CREATE INDEX "OrderIssue_shop_resolvedAt_idx" ON "OrderIssue"("shop", "resolvedAt");
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "ComponentUnit" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "inventoryItemId" TEXT NOT NULL,
+    "unitName" TEXT NOT NULL,
+    "baseUnitName" TEXT NOT NULL,
+    "unitSize" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ComponentUnit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ComponentUnit_shop_variantId_key" ON "ComponentUnit"("shop", "variantId");
+
+-- CreateIndex
+CREATE INDEX "ComponentUnit_shop_inventoryItemId_idx" ON "ComponentUnit"("shop", "inventoryItemId");
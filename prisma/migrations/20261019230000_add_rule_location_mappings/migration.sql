@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "VariantRule" ADD COLUMN     "locationMappings" TEXT;
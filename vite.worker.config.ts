@@ -0,0 +1,17 @@
+import { defineConfig, type UserConfig } from "vite";
+import tsconfigPaths from "vite-tsconfig-paths";
+
+// Builds the standalone job worker (app/worker.server.ts) to build/worker/worker.js
+export default defineConfig({
+  plugins: [tsconfigPaths()],
+  build: {
+    ssr: "app/worker.server.ts",
+    outDir: "build/worker",
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: "worker.js",
+      },
+    },
+  },
+}) satisfies UserConfig;